@@ -0,0 +1,165 @@
+import { TimeRange } from './service'
+
+/** 指令参数中的发送与搜索选项 */
+export interface SendOptions {
+  audio?: boolean
+  file?: boolean
+  card?: boolean
+  compress?: boolean
+  quality?: string
+  effect?: string
+  clip?: string
+  chorus?: boolean
+  artist?: boolean
+  album?: boolean
+  playlist?: boolean
+}
+
+/** 选中后展开为曲目列表的搜索类型 */
+export type ListType = 'artist' | 'album' | 'playlist'
+
+export const LIST_TYPES: ListType[] = ['artist', 'album', 'playlist']
+
+const BOOLEAN_FLAGS: Record<string, 'audio' | 'file' | 'card' | 'compress'> = {
+  a: 'audio', f: 'file', c: 'card', z: 'compress',
+}
+
+/** 需要参数的短选项，参数按选项出现顺序依次跟在后面，如 -qe lossless nightcore */
+const VALUE_FLAGS: Record<string, 'quality' | 'effect'> = {
+  q: 'quality', e: 'effect',
+}
+
+/** 单次最多选择的曲目数 */
+const MAX_PICK_COUNT = 10
+
+/** 自定义参数预处理：支持中英文引号，未知参数并入歌名 */
+export function parseArgs(raw: string): {
+  keyword: string
+  options: SendOptions
+} {
+  const options: SendOptions = {}
+  const parts: string[] = []
+  let i = 0
+  const quoteMap: Record<string, string> = {
+    '"': '"', "'": "'", '\u201c': '\u201d', '\u2018': '\u2019',
+  }
+
+  while (i < raw.length) {
+    if (/\s/.test(raw[i])) { i++; continue }
+
+    // 引号包裹
+    if (raw[i] in quoteMap) {
+      const close = quoteMap[raw[i]]
+      const start = i + 1
+      const end = raw.indexOf(close, start)
+      if (end !== -1) {
+        parts.push(raw.slice(start, end))
+        i = end + 1
+        continue
+      }
+    }
+
+    // 长选项：搜索类型（如 --artist）、--chorus 与需要参数的 --clip
+    if (raw.startsWith('--', i)) {
+      let j = i + 2
+      while (j < raw.length && !/\s/.test(raw[j])) j++
+      const name = raw.slice(i + 2, j)
+      if (LIST_TYPES.includes(name as ListType) || name === 'chorus') {
+        options[name as ListType | 'chorus'] = true
+        i = j
+        continue
+      }
+      if (name === 'clip') {
+        let k = j
+        while (k < raw.length && /\s/.test(raw[k])) k++
+        let end = k
+        while (end < raw.length && !/\s/.test(raw[end])) end++
+        if (end > k) {
+          options.clip = raw.slice(k, end)
+          i = end
+          continue
+        }
+      }
+    }
+
+    // 短选项（支持组合，如 -af；-q、-e 需要紧跟参数，如 -fq lossless）
+    if (raw[i] === '-' && i + 1 < raw.length && /[a-zA-Z]/.test(raw[i + 1])) {
+      let j = i + 1
+      while (j < raw.length && /[a-zA-Z]/.test(raw[j])) j++
+      if (j >= raw.length || /\s/.test(raw[j])) {
+        const chars = [...raw.slice(i + 1, j)]
+        let end = j
+        const values: string[] = []
+        for (const c of chars.filter(c => c in VALUE_FLAGS)) {
+          let k = end
+          while (k < raw.length && /\s/.test(raw[k])) k++
+          end = k
+          while (end < raw.length && !/\s/.test(raw[end])) end++
+          if (end > k) values.push(raw.slice(k, end))
+        }
+        const known = chars.every(c => c in BOOLEAN_FLAGS || c in VALUE_FLAGS)
+        if (known && values.length === chars.filter(c => c in VALUE_FLAGS).length) {
+          for (const c of chars) {
+            if (c in BOOLEAN_FLAGS) options[BOOLEAN_FLAGS[c]] = true
+            else options[VALUE_FLAGS[c]] = values.shift()
+          }
+          i = end
+          continue
+        }
+        // 未知选项整体当作歌名
+        parts.push(raw.slice(i, j))
+        i = j
+        continue
+      }
+    }
+
+    // 普通 token
+    let j = i
+    while (j < raw.length && !/\s/.test(raw[j])) j++
+    parts.push(raw.slice(i, j))
+    i = j
+  }
+
+  return { keyword: parts.join(' '), options }
+}
+
+/**
+ * 解析多选回复，如「1 3 5」「1,3」「2-4」，返回从 0 开始的序号。
+ * 含有无法识别或越界的部分时返回 undefined，交由后续中间件处理。
+ */
+export function parseSelection(input: string, total: number): number[] | undefined {
+  const tokens = input.split(/[\s,，、]+/).filter(Boolean)
+  if (!tokens.length) return
+
+  const indices: number[] = []
+  for (const token of tokens) {
+    const range = /^(\d+)(?:-(\d+))?$/.exec(token)
+    if (!range) return
+    const start = parseInt(range[1])
+    const end = range[2] ? parseInt(range[2]) : start
+    if (start < 1 || end > total || start > end) return
+    for (let n = start; n <= end; n++) {
+      if (!indices.includes(n - 1)) indices.push(n - 1)
+    }
+  }
+
+  return indices.slice(0, MAX_PICK_COUNT)
+}
+
+/** 解析时间，支持秒数（90、12.5）以及 分:秒、时:分:秒（1:30、1:02:03），返回毫秒 */
+function parseTime(text: string): number | undefined {
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(text)) return
+  const parts = text.split(':').map(Number)
+  if (parts.slice(1).some(part => part >= 60)) return
+  return Math.round(parts.reduce((total, part) => total * 60 + part, 0) * 1000)
+}
+
+/** 解析截取范围，如「1:00-1:30」「60~90」，结束时间需晚于开始时间 */
+export function parseTimeRange(text: string): TimeRange | undefined {
+  const match = /^([\d:.]+)\s*[-~～]\s*([\d:.]+)$/.exec(text.trim())
+  if (!match) return
+  const start = parseTime(match[1])
+  const end = parseTime(match[2])
+  if (start === undefined || end === undefined || end <= start) return
+  return { start, end }
+}
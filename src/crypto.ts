@@ -0,0 +1,88 @@
+import * as crypto from 'crypto'
+
+/**
+ * 网易云接口的三种加密方式：
+ * - weapi：网页端，AES-CBC 两次加密 + RSA 加密随机密钥
+ * - eapi：PC / 移动客户端，AES-ECB 加密并附带 MD5 摘要
+ * - linuxapi：旧版 Linux 客户端，AES-ECB 加密后经 /api/linux/forward 转发
+ */
+export type CryptoMode = 'weapi' | 'eapi' | 'linuxapi'
+
+export interface EncryptedRequest {
+  /** 相对于接口地址的请求路径 */
+  endpoint: string
+  /** application/x-www-form-urlencoded 请求体 */
+  body: string
+}
+
+const IV = '0102030405060708'
+const PRESET_KEY = '0CoJUm6Qyw8W8jud'
+const EAPI_KEY = 'e82ckenh8dichen8'
+const LINUXAPI_KEY = 'rFgB&h#%2?^eDg:Q'
+const RSA_MODULUS = BigInt('0x00e0b509f6259df8642dbc35662901477df22677ec152b5ff68ace615bb7b725152b3ab17a876aea8a5aa76d2e417629ec4ee341f56135fccf695280104e0312ecbda92557c93870114af6c9d05c4f7f0c3685b7a46bee255932575cce10b424d813cfe4875d3e82047b97ddef52741d546b8e289dc6935b3ece0462db0a22b8e7')
+const RSA_EXPONENT = BigInt('0x010001')
+const SECRET_KEY_CHARS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+
+/** 生成 16 位随机密钥，用于 weapi 的第二次 AES 加密 */
+export function createSecretKey(): string {
+  return Array.from({ length: 16 }, () => SECRET_KEY_CHARS[Math.floor(Math.random() * SECRET_KEY_CHARS.length)]).join('')
+}
+
+/**
+ * 按加密方式生成请求路径与请求体。
+ * path 为 /api/ 开头的接口路径，weapi 与 eapi 分别替换为 /weapi/、/eapi/ 前缀；secretKey 仅 weapi 使用。
+ */
+export function encryptRequest(mode: CryptoMode, path: string, params: object, secretKey = createSecretKey()): EncryptedRequest {
+  switch (mode) {
+    case 'eapi':
+      return { endpoint: path.replace(/^\/api\//, '/eapi/'), body: eapi(path, params) }
+    case 'linuxapi':
+      return { endpoint: '/api/linux/forward', body: linuxapi(path, params) }
+    default:
+      return { endpoint: path.replace(/^\/api\//, '/weapi/'), body: weapi(params, secretKey) }
+  }
+}
+
+export function weapi(params: object, secretKey: string): string {
+  const text = JSON.stringify(params)
+  const encText = aesEncrypt(aesEncrypt(text, 'cbc', PRESET_KEY, 'base64'), 'cbc', secretKey, 'base64')
+  const encSecKey = rsaEncrypt(secretKey)
+  return `params=${encodeURIComponent(encText)}&encSecKey=${encodeURIComponent(encSecKey)}`
+}
+
+export function eapi(path: string, params: object): string {
+  const text = JSON.stringify(params)
+  const digest = crypto.createHash('md5').update(`nobody${path}use${text}md5forencrypt`).digest('hex')
+  const data = `${path}-36cd479b6b5-${text}-36cd479b6b5-${digest}`
+  return `params=${aesEncrypt(data, 'ecb', EAPI_KEY, 'hex').toUpperCase()}`
+}
+
+export function linuxapi(path: string, params: object): string {
+  const text = JSON.stringify({ method: 'POST', url: `https://music.163.com${path}`, params })
+  return `eparams=${aesEncrypt(text, 'ecb', LINUXAPI_KEY, 'hex').toUpperCase()}`
+}
+
+function aesEncrypt(text: string, mode: 'cbc' | 'ecb', key: string, encoding: 'base64' | 'hex'): string {
+  const cipher = crypto.createCipheriv(`aes-128-${mode}`, key, mode === 'cbc' ? IV : null)
+  return cipher.update(text, 'utf8', encoding) + cipher.final(encoding)
+}
+
+// 无填充 RSA：密钥倒序后直接做模幂运算
+function rsaEncrypt(text: string): string {
+  const reversed = text.split('').reverse().join('')
+  const value = BigInt('0x' + Buffer.from(reversed).toString('hex'))
+  return powMod(value, RSA_EXPONENT, RSA_MODULUS).toString(16).padStart(256, '0')
+}
+
+function powMod(base: bigint, exp: bigint, mod: bigint): bigint {
+  let result = BigInt(1)
+  base = base % mod
+  while (exp > 0) {
+    if (exp % BigInt(2) === BigInt(1)) {
+      result = (result * base) % mod
+    }
+    exp = exp / BigInt(2)
+    base = (base * base) % mod
+  }
+  return result
+}
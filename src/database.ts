@@ -1,5 +1,6 @@
 export interface MusicCache {
   id: string // 歌曲ID
+  quality: string // 音质档位，与歌曲ID共同作为主键
   name: string // 歌曲名称
   artist: string // 艺术家
   url: string // 直链URL
@@ -8,10 +9,69 @@ export interface MusicCache {
   fileSize?: number // 文件大小（字节）
   cacheTime?: number // 缓存时间戳
   bitrate: number // 比特率
+  tagged?: boolean // 是否已写入元数据标签
+  lastAccess?: number // 最近一次发送的时间戳
+  hits?: number // 命中缓存的次数
+  effect?: string // 音效/压缩处理结果的 ffmpeg 参数，原始音频为空
+}
+
+export interface QueueItem {
+  id: number // 自增ID，决定播放顺序
+  channel: string // 频道标识（platform:channelId）
+  songId: string // 歌曲ID
+  name: string // 歌曲名称
+  artist: string // 艺术家
+  duration: number // 时长（毫秒）
+  userId: string // 点歌用户
+  addTime: number // 加入时间戳
+}
+
+export interface HistoryItem {
+  id: number // 自增ID
+  userId: string // 用户标识（platform:userId）
+  songId: string // 歌曲ID
+  name: string // 歌曲名称
+  artist: string // 艺术家
+  duration: number // 时长（毫秒）
+  time: number // 点歌时间戳
+}
+
+export interface FavoriteItem {
+  id: number // 自增ID，决定收藏顺序
+  userId: string // 用户标识（platform:userId）
+  songId: string // 歌曲ID
+  name: string // 歌曲名称
+  artist: string // 艺术家
+  duration: number // 时长（毫秒）
+  addTime: number // 收藏时间戳
+}
+
+export interface StatsRecord {
+  id: number // 自增ID
+  userId: string // 点歌用户
+  username: string // 点歌时的用户昵称
+  channel: string // 频道标识（platform:channelId）
+  platform: string // 平台
+  songId: string // 歌曲ID
+  name: string // 歌曲名称
+  artist: string // 艺术家
+  source: string // 发送来源：cache=命中缓存 download=新下载 card=音乐卡片
+  time: number // 发送时间戳
+}
+
+export interface StoredCookie {
+  name: string // Cookie 名称，:config-hash 行记录配置项 Cookie 的摘要
+  value: string // Cookie 值
+  updateTime: number // 更新时间戳
 }
 
 declare module 'koishi' {
   interface Tables {
     ncm_cache: MusicCache
+    ncm_queue: QueueItem
+    ncm_cookie: StoredCookie
+    ncm_history: HistoryItem
+    ncm_favorite: FavoriteItem
+    ncm_stats: StatsRecord
   }
 }
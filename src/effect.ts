@@ -0,0 +1,36 @@
+/**
+ * 内置音效预设：名称 → ffmpeg 音频滤镜（-af）。
+ * 变速类预设先统一重采样到 44.1kHz，再用 asetrate 同时改变速度与音高。
+ */
+export const BUILTIN_EFFECTS: Record<string, string> = {
+  nightcore: 'aresample=44100,asetrate=44100*1.25,aresample=44100',
+  slowed: 'aresample=44100,asetrate=44100*0.85,aresample=44100',
+  reverb: 'aecho=0.8:0.88:60|120:0.4|0.25',
+  '8d': 'aformat=channel_layouts=stereo,apulsator=hz=0.125',
+  bassboost: 'bass=g=10:f=110:w=0.6,alimiter=limit=0.95',
+  normalize: 'loudnorm=I=-14:TP=-1.5:LRA=11',
+}
+
+/** 预设名称会出现在缓存文件名中，只允许字母、数字、下划线与短横线 */
+const EFFECT_NAME = /^[a-z0-9_-]+$/i
+
+export function isValidEffectName(name: string): boolean {
+  return EFFECT_NAME.test(name)
+}
+
+/**
+ * 合并内置与自定义预设，自定义预设同名时覆盖内置预设；名称或滤镜无效的项被忽略。
+ * 返回 Map，避免 constructor、__proto__ 等原型属性被当作预设名称。
+ */
+export function resolveEffects(custom: Record<string, string> = {}): Map<string, string> {
+  const effects = new Map(Object.entries(BUILTIN_EFFECTS))
+  for (const [name, filter] of Object.entries(custom)) {
+    if (isValidEffectName(name) && filter?.trim()) effects.set(name.toLowerCase(), filter.trim())
+  }
+  return effects
+}
+
+/** 处理后的缓存以「音质+处理方式」作为音质档位，如 exhigh+nightcore、exhigh+nightcore+compress */
+export function getVariantQuality(quality: string, effect?: string, compress?: boolean): string {
+  return [quality, effect, compress && 'compress'].filter(Boolean).join('+')
+}
@@ -1,16 +1,30 @@
-import { Context, Schema, Logger, Session, h } from 'koishi'
-import { NcmService } from './service'
-import { MusicCache } from './database'
+import { $, Context, Query, Schema, Logger, Session, h } from 'koishi'
+import { NcmService, NcmServiceOptions, DEFAULT_USER_AGENT, DEFAULT_REAL_IP, detectTrialClip, SearchResult, SearchPage, AlbumResult, ArtistResult, PlaylistResult, TrackList, AccountStatus, Quality, QualityUrl, TimeRange, QUALITIES } from './service'
+import { MusicCache, QueueItem, HistoryItem, FavoriteItem, StatsRecord } from './database'
+import { parseLrc, mergeLyrics } from './lyric'
+import { writeTags } from './tagger'
+import { ResourceLink, ResourceType, matchResourceLink, matchSongLink, parseResourceId, parseSongId } from './link'
+import { MusicProvider, MusicProviderService, DEFAULT_PROVIDER, toSongKey } from './provider'
+import { SendOptions, ListType, LIST_TYPES, parseArgs, parseSelection, parseTimeRange } from './args'
+import { LocalProvider } from './local'
+import { resolveEffects, getVariantQuality } from './effect'
+import { VoiceCodec, VOICE_EXTENSIONS, SILK_SAMPLE_RATE, getVoiceArgs } from './voice'
 import zhCN from './locales/zh-CN'
 import enUS from './locales/en-US'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import { pathToFileURL } from 'url'
+import QRCode from 'qrcode'
+
+export * from './provider'
 
 export const name = 'music-player-ncm'
 export const inject = {
-  required: ['database', 'http', 'i18n'],
-  optional: ['ffmpeg'],
+  database: { required: true },
+  http: { required: true },
+  i18n: { required: true },
+  ffmpeg: { required: false },
+  silk: { required: false },
 }
 
 interface FFmpegBuilder {
@@ -25,45 +39,108 @@ interface FFmpegService {
   builder(): FFmpegBuilder
 }
 
+/** koishi-plugin-silk 提供的编码服务 */
+interface SilkService {
+  encode(input: ArrayBufferView | ArrayBuffer, sampleRate: number): Promise<{ data: Uint8Array; duration: number }>
+}
+
 declare module 'koishi' {
   interface Context {
     ncm: NcmService
+    musicProvider: MusicProviderService
     ffmpeg: FFmpegService
+    silk: SilkService
   }
 }
 
 export interface Config {
   cookie: string
-  bitrate: number
+  baseUrl: string
+  proxyAgent: string
+  userAgent: string
+  realIpMode: 'fixed' | 'random' | 'off'
+  realIp: string
+  provider: string
+  localMusicPath: string
+  quality: Quality
+  trialPolicy: 'notice' | 'refuse'
   searchTimeout: number
   searchPageSize: number
   mergeSearchResults: boolean
-  sendFormat: 'file' | 'audio'
+  sendFormat: 'file' | 'audio' | 'card'
+  cardFallback: 'file' | 'audio'
   rateLimitEnabled: boolean
   rateLimitInterval: number
   rateLimitGlobal: boolean
   cacheMaxSize: number
+  maxConcurrentDownloads: number
   cachePath: string
   compressBitrate: number
   compressSampleRate: number
   compressChannels: 1 | 2
   compressVolumeGain: number
+  effectPresets: Record<string, string>
+  voiceCodecs: Record<string, VoiceCodec>
+  voiceMaxDuration: number
+  voiceMaxSize: number
+  lyricTranslation: boolean
+  lyricRomanization: boolean
+  lyricLinesPerMessage: number
+  lyricMergeForward: boolean
+  autoParseLinks: boolean
+  trackPageSize: number
+  queueMaxLength: number
+  queueAutoAdvance: boolean
+  accountCheckInterval: number
+  accountNotifyChannel: string
+  embedMetadata: boolean
+  embedLyrics: boolean
+  historyLimit: number
+  favoriteMaxLength: number
+  statsRetention: number
 }
 
-export const Config: Schema<Config> = Schema.object({
+export const Config: Schema<Partial<Config>, Config> = Schema.object({
   cookie: Schema.string().role('secret').description('网易云音乐 Cookie'),
-  bitrate: Schema.number().default(320000).description('音频码率 (bps)'),
+  baseUrl: Schema.string().default('https://music.163.com').description('网易云接口地址（可指向自建的兼容网关、反向代理或测试用的模拟服务）'),
+  proxyAgent: Schema.string().description('代理服务器地址，支持 http / https / socks（如 socks5://127.0.0.1:1080）'),
+  userAgent: Schema.string().default(DEFAULT_USER_AGENT).description('网页端接口（weapi）请求使用的 User-Agent'),
+  realIpMode: Schema.union([
+    Schema.const('fixed').description('固定 IP'),
+    Schema.const('random').description('每次请求随机国内 IP'),
+    Schema.const('off').description('不发送'),
+  ]).role('radio').default('fixed').description('伪造来源 IP（X-Real-IP），海外部署时可解除部分地区限制'),
+  realIp: Schema.string().default(DEFAULT_REAL_IP).description('固定模式下使用的 IP'),
+  provider: Schema.string().default(DEFAULT_PROVIDER).description('默认音乐来源（ncm、local 或其他插件注册的来源）'),
+  localMusicPath: Schema.string().description('本地音乐目录，填写后启用 local 来源'),
+  quality: Schema.union([
+    Schema.const('standard').description('标准 (128k)'),
+    Schema.const('higher').description('较高 (192k)'),
+    Schema.const('exhigh').description('极高 (320k)'),
+    Schema.const('lossless').description('无损 (FLAC)'),
+    Schema.const('hires').description('Hi-Res'),
+  ]).default('exhigh').description('默认音质，不可用时自动降级'),
+  trialPolicy: Schema.union([
+    Schema.const('notice').description('发送并提示'),
+    Schema.const('refuse').description('拒绝发送'),
+  ]).role('radio').default('notice').description('只能获取试听片段时（如未登录 VIP）的处理方式，试听片段不会写入缓存'),
   searchTimeout: Schema.number().default(30).description('搜索超时时间 (秒)'),
   searchPageSize: Schema.number().default(5).min(1).max(20).description('搜索结果数量'),
   mergeSearchResults: Schema.boolean().default(false).description('合并发送搜索结果'),
   sendFormat: Schema.union([
     Schema.const('file').description('文件'),
     Schema.const('audio').description('语音/音频'),
+    Schema.const('card').description('音乐卡片'),
   ]).role('radio').default('file').description('发送格式'),
+  cardFallback: Schema.union([
+    Schema.const('file').description('文件'),
+    Schema.const('audio').description('语音/音频'),
+  ]).role('radio').default('file').description('平台不支持音乐卡片时的发送格式'),
   rateLimitEnabled: Schema.boolean().default(true).description('启用频率限制'),
   rateLimitInterval: Schema.number().default(2).description('调用间隔 (秒)'),
   rateLimitGlobal: Schema.boolean().default(true).description('全局频率限制'),
   cacheMaxSize: Schema.number().default(1024).description('缓存容量上限 (MB)'),
+  maxConcurrentDownloads: Schema.number().default(3).min(1).description('同时进行的下载数上限，超出时排队'),
   cachePath: Schema.string().default('data/ncm-cache').description('缓存路径'),
   compressBitrate: Schema.number().default(8).description('压缩码率 (kbps)'),
   compressSampleRate: Schema.number().default(8000).description('压缩采样率 (Hz)'),
@@ -72,76 +149,134 @@ export const Config: Schema<Config> = Schema.object({
     Schema.const(2).description('双声道'),
   ]).role('radio').default(1).description('压缩声道数'),
   compressVolumeGain: Schema.number().default(30).description('压缩音量增益 (dB)'),
+  effectPresets: Schema.dict(Schema.string()).role('table').default({}).description('自定义音效预设（名称 → ffmpeg 音频滤镜），与内置预设同名时覆盖'),
+  voiceCodecs: Schema.dict(Schema.union(['opus', 'silk', 'amr', 'none'])).role('table').default({
+    telegram: 'opus',
+    discord: 'opus',
+    onebot: 'silk',
+    qq: 'silk',
+  }).description('各平台语音消息的编码（平台 → opus/silk/amr/none），未列出的平台直接发送原文件'),
+  voiceMaxDuration: Schema.number().default(300).min(0).description('语音消息最长时长 (秒，0 为不限)，超出部分截断'),
+  voiceMaxSize: Schema.number().default(10).min(0).description('语音消息大小上限 (MB，0 为不限)，Opus 按此降低码率'),
+  lyricTranslation: Schema.boolean().default(true).description('歌词附带翻译'),
+  lyricRomanization: Schema.boolean().default(false).description('歌词附带罗马音'),
+  lyricLinesPerMessage: Schema.number().default(40).min(5).description('每条消息的歌词行数'),
+  lyricMergeForward: Schema.boolean().default(false).description('长歌词以合并转发发送'),
+  autoParseLinks: Schema.boolean().default(true).description('自动识别聊天中的歌曲链接'),
+  trackPageSize: Schema.number().default(10).min(1).max(30).description('歌单/专辑每页曲目数'),
+  queueMaxLength: Schema.number().default(50).min(1).description('每个频道的队列长度上限'),
+  queueAutoAdvance: Schema.boolean().default(false).description('队列自动连播（按歌曲时长播放下一首）'),
+  accountCheckInterval: Schema.number().default(60).min(0).description('Cookie 有效性检查间隔 (分钟，0 为关闭)'),
+  accountNotifyChannel: Schema.string().description('Cookie 失效时通知的频道 (platform:channelId)'),
+  embedMetadata: Schema.boolean().default(true).description('写入歌曲标签与封面'),
+  embedLyrics: Schema.boolean().default(false).description('标签中附带歌词'),
+  historyLimit: Schema.number().default(20).min(1).max(100).description('每位用户保留的点歌历史数'),
+  favoriteMaxLength: Schema.number().default(100).min(1).description('每位用户的收藏数上限'),
+  statsRetention: Schema.number().default(90).min(0).description('点歌统计保留天数 (0 为永久保留)，建议不少于 30 天以覆盖月榜'),
 })
 
 export const logger = new Logger('music-player-ncm')
 
-interface SearchSession {
+/** 单次点歌的发送参数 */
+interface SongRequestOptions {
+  sendFormat?: Config['sendFormat']
+  compress?: boolean
+  /** 音效预设名称 */
+  effect?: string
+  /** 截取的时间范围 */
+  clip?: TimeRange
+  /** 只发送副歌片段，发送前解析为 clip */
+  chorus?: boolean
+  quality?: Quality
+}
+
+/** 由缓存音频派生的音频（音效、压缩、语音编码）的生成方式 */
+interface DerivedAudio {
+  /** 追加在源音频音质档位后的处理标识，如 nightcore、silk */
+  variant: string
+  /** 处理参数，变化后重新生成 */
+  signature: string
+  extension: string
+  bitrate: number
+  /** 生成输出文件 */
+  produce(outputPath: string): Promise<void>
+}
+
+interface SearchSession extends SongRequestOptions {
   results: any[]
   timeout: NodeJS.Timeout
-  sendFormat?: 'file' | 'audio'
-  compress?: boolean
+  action: 'song' | 'lyric' | 'queue' | ListType
+  /** 当前页码，从 0 开始；存在时支持翻页，曲目列表（歌单/专辑）还支持多选 */
+  page?: number
+  /** 曲目列表标题 */
+  title?: string
+  /** 关键词搜索的关键词；存在时翻页会重新请求对应页的搜索结果 */
+  keyword?: string
+  /** 关键词搜索的结果总数 */
+  total?: number
+  /** 歌曲搜索使用的音乐来源 */
+  provider?: string
 }
 
-const KNOWN_FLAGS = new Set(['a', 'f', 'z'])
-
-/** 自定义参数预处理：支持中英文引号，未知参数并入歌名 */
-function parseArgs(raw: string): {
-  keyword: string
-  options: { audio?: boolean; file?: boolean; compress?: boolean }
-} {
-  const options: { audio?: boolean; file?: boolean; compress?: boolean } = {}
-  const parts: string[] = []
-  let i = 0
-  const quoteMap: Record<string, string> = {
-    '"': '"', "'": "'", '\u201c': '\u201d', '\u2018': '\u2019',
-  }
-
-  while (i < raw.length) {
-    if (/\s/.test(raw[i])) { i++; continue }
-
-    // 引号包裹
-    if (raw[i] in quoteMap) {
-      const close = quoteMap[raw[i]]
-      const start = i + 1
-      const end = raw.indexOf(close, start)
-      if (end !== -1) {
-        parts.push(raw.slice(start, end))
-        i = end + 1
-        continue
-      }
-    }
+const LIST_MESSAGES: Record<ListType, { label: string; noResults: string; error: string }> = {
+  artist: { label: '歌手', noResults: 'commands.ncmget.messages.no-artist', error: 'commands.ncmget.messages.artist-error' },
+  album: { label: '专辑', noResults: 'commands.ncmalbum.messages.no-results', error: 'commands.ncmalbum.messages.album-error' },
+  playlist: { label: '歌单', noResults: 'commands.ncmget.messages.no-playlist', error: 'commands.ncmplaylist.messages.playlist-error' },
+}
 
-    // 短选项（支持组合，如 -af）
-    if (raw[i] === '-' && i + 1 < raw.length && /[a-zA-Z]/.test(raw[i + 1])) {
-      let j = i + 1
-      while (j < raw.length && /[a-zA-Z]/.test(raw[j])) j++
-      if (j >= raw.length || /\s/.test(raw[j])) {
-        const chars = raw.slice(i + 1, j)
-        if ([...chars].every(c => KNOWN_FLAGS.has(c))) {
-          for (const c of chars) {
-            if (c === 'a') options.audio = true
-            if (c === 'f') options.file = true
-            if (c === 'z') options.compress = true
-          }
-          i = j
-          continue
-        }
-        // 未知选项整体当作歌名
-        parts.push(raw.slice(i, j))
-        i = j
-        continue
-      }
-    }
+type SearchItem = SearchResult | AlbumResult | ArtistResult | PlaylistResult
 
-    // 普通 token
-    let j = i
-    while (j < raw.length && !/\s/.test(raw[j])) j++
-    parts.push(raw.slice(i, j))
-    i = j
-  }
+/** 排行榜中的一项 */
+interface RankEntry {
+  label: string
+  count: number
+}
+
+/** 歌曲的发送来源：命中缓存、新下载或音乐卡片 */
+type SendSource = 'cache' | 'download' | 'card'
+
+/** 统计周期（天），key 同时接受中文别名 */
+const STATS_PERIODS: Record<string, { key: string; days: number }> = {
+  day: { key: 'day', days: 1 },
+  日: { key: 'day', days: 1 },
+  天: { key: 'day', days: 1 },
+  week: { key: 'week', days: 7 },
+  周: { key: 'week', days: 7 },
+  month: { key: 'month', days: 30 },
+  月: { key: 'month', days: 30 },
+}
+
+/** 排行榜展示条数 */
+const STATS_TOP_COUNT = 5
+/** 清理过期点歌统计的间隔（ms） */
+const STATS_PRUNE_INTERVAL = 24 * 60 * 60 * 1000
+
+/** 发送歌曲链接即可由客户端展开为富链接卡片的平台 */
+const LINK_PREVIEW_PLATFORMS = new Set(['telegram', 'discord', 'slack', 'kook', 'matrix'])
+
+const NEXT_PAGE = new Set(['n', 'next', '下一页'])
+const PREV_PAGE = new Set(['p', 'prev', '上一页'])
+
+/** 缓存列表每页条数 */
+const CACHE_LIST_PAGE_SIZE = 10
+/** 按歌单预热时最多缓存的歌曲数 */
+const PREWARM_MAX_SONGS = 20
+
+/** 副歌片段的最短时长（ms） */
+const CHORUS_MIN_LENGTH = 30 * 1000
 
-  return { keyword: parts.join(' '), options }
+/** 音效处理输出的码率 (kbps) */
+const EFFECT_BITRATE = 192
+
+/** 手动校验缓存时，最近修改过的临时文件可能仍在使用，超过该时长（ms）才删除 */
+const TEMP_FILE_MAX_AGE = 10 * 60 * 1000
+
+/** 扫码登录轮询间隔与超时（ms） */
+const LOGIN_POLL_INTERVAL = 2000
+const LOGIN_TIMEOUT = 3 * 60 * 1000
+
+function isQuality(value: string): value is Quality {
+  return (QUALITIES as string[]).includes(value)
 }
 
 function sanitizeFilename(name: string): string {
@@ -154,16 +289,49 @@ function sanitizeFilename(name: string): string {
   return name || 'file'
 }
 
-export function apply(ctx: Context, config: Config) {
+/** 以 MB 为单位显示文件大小 */
+function formatSize(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`
+}
+
+/** 缓存目录中的临时文件：下载与写标签的中间文件、截取或处理后待发送的音频、旧版压缩后的音频、试听片段 */
+function isTempCacheFile(filename: string): boolean {
+  return /\.(part|tag)$/.test(filename) || /_compressed\.mp3$|\.tmp\.[a-z0-9]+$/.test(filename) || /-trial-\d+[.+]/.test(filename)
+}
+
+/** 按缓存文件命名规则（来源_ID-音质.扩展名）解析出歌曲ID与音质 */
+function parseCacheFilename(filename: string): { provider: string; id: string; quality: Quality } | undefined {
+  const match = /^([a-zA-Z0-9]+)_([a-zA-Z0-9_-]+)-([a-z]+)\.[a-z0-9]+$/i.exec(filename)
+  if (!match || !isQuality(match[3])) return
+  return { provider: match[1], id: match[2], quality: match[3] }
+}
+
+export interface CacheScanReport {
+  adopted: number // 收录的无记录文件
+  removed: number // 删除的无记录文件
+  temp: number // 删除的临时文件
+  reset: number // 文件丢失而重置的记录
+  resized: number // 修正文件大小的记录
+}
+
+/** serviceOptions 不属于用户配置，仅供测试固定 NcmService 的运行参数 */
+export function apply(ctx: Context, config: Config, serviceOptions: NcmServiceOptions = {}) {
   ctx.i18n.define('zh-CN', zhCN)
   ctx.i18n.define('zh', zhCN)
   ctx.i18n.define('en-US', enUS)
   ctx.i18n.define('en', enUS)
 
-  const ncm = new NcmService(ctx, config)
+  const ncm = new NcmService(ctx, config, serviceOptions)
+  const effects = resolveEffects(config.effectPresets)
+  // 对外提供 musicProvider 服务，供其他插件注册音乐来源
+  const providers = new MusicProviderService(ctx)
+  ctx.set('musicProvider', providers)
+  providers.register(ncm)
+  if (config.localMusicPath) providers.register(new LocalProvider(ctx, config.localMusicPath))
 
   ctx.model.extend('ncm_cache', {
     id: 'string',
+    quality: 'string',
     name: 'string',
     artist: 'string',
     url: 'string',
@@ -172,11 +340,73 @@ export function apply(ctx: Context, config: Config) {
     fileSize: 'unsigned',
     cacheTime: 'unsigned',
     bitrate: 'unsigned',
-  }, { primary: 'id' })
+    tagged: 'boolean',
+    lastAccess: 'unsigned',
+    hits: 'unsigned',
+    effect: 'string',
+  }, { primary: ['id', 'quality'] })
+
+  ctx.model.extend('ncm_queue', {
+    id: 'unsigned',
+    channel: 'string',
+    songId: 'string',
+    name: 'string',
+    artist: 'string',
+    duration: 'unsigned',
+    userId: 'string',
+    addTime: 'unsigned',
+  }, { autoInc: true })
+
+  ctx.model.extend('ncm_cookie', {
+    name: 'string',
+    value: 'text',
+    updateTime: 'unsigned',
+  }, { primary: 'name' })
+
+  ctx.model.extend('ncm_history', {
+    id: 'unsigned',
+    userId: 'string',
+    songId: 'string',
+    name: 'string',
+    artist: 'string',
+    duration: 'unsigned',
+    time: 'unsigned',
+  }, { autoInc: true })
+
+  ctx.model.extend('ncm_favorite', {
+    id: 'unsigned',
+    userId: 'string',
+    songId: 'string',
+    name: 'string',
+    artist: 'string',
+    duration: 'unsigned',
+    addTime: 'unsigned',
+  }, { autoInc: true })
+
+  ctx.model.extend('ncm_stats', {
+    id: 'unsigned',
+    userId: 'string',
+    username: 'string',
+    channel: 'string',
+    platform: 'string',
+    songId: 'string',
+    name: 'string',
+    artist: 'string',
+    source: 'string',
+    time: 'unsigned',
+  }, { autoInc: true })
 
   const searchSessions = new Map<string, SearchSession>()
   const rateLimitMap = new Map<string, number>()
-  const downloadLocks = new Set<string>()
+  /** 正在进行的下载（按缓存路径索引），同一首歌同一音质的并发请求共用一个任务 */
+  const downloads = new Map<string, Promise<MusicCache>>()
+  /** 等待下载名额的任务，按先来后到唤醒 */
+  const downloadQueue: (() => void)[] = []
+  let activeDownloads = 0
+  /** 自动连播定时器与正在播放的歌曲，按频道索引 */
+  const queueTimers = new Map<string, NodeJS.Timeout>()
+  const nowPlaying = new Map<string, QueueItem>()
+  let loginPending = false
 
   const rateLimitCleanupInterval = setInterval(() => {
     const now = Date.now()
@@ -186,12 +416,84 @@ export function apply(ctx: Context, config: Config) {
     }
   }, 5 * 60 * 1000)
 
+  const statsPruneInterval = config.statsRetention > 0
+    ? setInterval(() => {
+      pruneStats().catch(error => logger.warn('清理点歌统计失败:', error))
+    }, STATS_PRUNE_INTERVAL)
+    : undefined
+
+  // 定时检查 Cookie 是否仍处于登录状态，仅在状态变为失效时通知一次
+  let lastAuthenticated: boolean | undefined
+  const accountCheckInterval = config.accountCheckInterval > 0
+    ? setInterval(() => {
+      checkAccount().catch(error => logger.warn('Cookie 状态检查失败:', error))
+    }, config.accountCheckInterval * 60 * 1000)
+    : undefined
+
+  async function checkAccount() {
+    if (!ncm.hasLoginCookie()) return
+    const status = await ncm.getAccountStatus()
+    const authenticated = status.loggedIn && status.csrfValid !== false
+    if (!authenticated) {
+      const path = 'commands.ncmaccount.messages.cookie-expired'
+      logger.warn(ctx.i18n.render([], [path], []).join(''))
+      if (lastAuthenticated !== false && config.accountNotifyChannel) {
+        // 通知以 i18n 元素发送，由发送时的会话语言决定文案
+        await ctx.broadcast([config.accountNotifyChannel], h.i18n(path))
+      }
+    }
+    lastAuthenticated = authenticated
+  }
+
+  ctx.on('ready', async () => {
+    // 旧版缓存记录使用不带来源前缀的网易云ID，且没有音质档位，启动时统一迁移为 ncm:ID 并按码率补全音质
+    try {
+      const legacy = (await ctx.database.get('ncm_cache', {})).filter(row => !row.id.includes(':') || !row.quality)
+      if (legacy.length) {
+        await ctx.database.upsert('ncm_cache', legacy.map(row => ({
+          ...row,
+          id: toSongKey(row.id),
+          quality: row.quality || getLegacyQuality(row),
+        })))
+        for (const row of legacy) {
+          await ctx.database.remove('ncm_cache', { id: row.id, quality: row.quality || { $or: [{ $eq: '' }, { $exists: false }] } })
+        }
+        logger.info(`已迁移 ${legacy.length} 条缓存记录`)
+      }
+    } catch (error) {
+      logger.warn('迁移缓存记录失败:', error)
+    }
+
+    // 缓存目录变更、数据库恢复或异常退出后，记录与磁盘文件可能不一致
+    try {
+      const report = await reconcileCache(true)
+      if (Object.values(report).some(Boolean)) {
+        const { adopted, removed, temp, reset, resized } = report
+        logger.info(`缓存校验完成: 收录 ${adopted}，删除 ${removed}，临时文件 ${temp}，重置 ${reset}，修正大小 ${resized}`)
+      }
+    } catch (error) {
+      logger.warn('校验缓存失败:', error)
+    }
+
+    try {
+      await pruneStats()
+    } catch (error) {
+      logger.warn('清理点歌统计失败:', error)
+    }
+  })
+
   ctx.on('dispose', () => {
     clearInterval(rateLimitCleanupInterval)
+    if (statsPruneInterval) clearInterval(statsPruneInterval)
+    if (accountCheckInterval) clearInterval(accountCheckInterval)
     for (const [, session] of searchSessions) {
       clearTimeout(session.timeout)
     }
     searchSessions.clear()
+    for (const [, timer] of queueTimers) {
+      clearTimeout(timer)
+    }
+    queueTimers.clear()
   })
 
   function checkRateLimit(session: Session): boolean {
@@ -204,6 +506,14 @@ export function apply(ctx: Context, config: Config) {
     return true
   }
 
+  function getChannelKey(session: Session): string {
+    return `${session.platform}:${session.channelId || session.userId}`
+  }
+
+  function getUserKey(session: Session): string {
+    return `${session.platform}:${session.userId}`
+  }
+
   function getSessionKey(session: Session): string {
     return `${session.platform}:${session.channelId || session.userId}:${session.userId}`
   }
@@ -225,22 +535,31 @@ export function apply(ctx: Context, config: Config) {
     }
   }
 
+  /** 区分音质档位之前的缓存记录按码率与文件格式推断音质，码率未知时视为默认下载的 exhigh */
+  function getLegacyQuality(cache: MusicCache): Quality {
+    if (!cache.bitrate) return 'exhigh'
+    return ncm.getUrlQuality({ br: cache.bitrate, type: path.extname(cache.cachePath || '').slice(1) })
+  }
+
+  /** 最近一次访问时间，从未命中过的缓存以写入时间为准 */
+  function getLastAccess(cache: MusicCache): number {
+    return cache.lastAccess || cache.cacheTime || 0
+  }
+
+  /** 按 LRU 策略清理缓存：最久未访问的先淘汰，访问时间相同时命中次数少的先淘汰 */
   async function cleanOldCache(requiredSpace: number) {
     const maxBytes = config.cacheMaxSize * 1024 * 1024
     const currentSize = await getCacheTotalSize()
     if (currentSize + requiredSpace <= maxBytes) return
 
     const caches = await ctx.database.get('ncm_cache', { cached: true })
-    caches.sort((a, b) => (a.cacheTime || 0) - (b.cacheTime || 0))
+    caches.sort((a, b) => getLastAccess(a) - getLastAccess(b) || (a.hits || 0) - (b.hits || 0))
 
     let freedSpace = 0
     for (const cache of caches) {
       if (currentSize - freedSpace + requiredSpace <= maxBytes) break
       try {
-        if (cache.cachePath) await fs.unlink(cache.cachePath)
-        await ctx.database.set('ncm_cache', { id: cache.id }, {
-          cached: false, cachePath: '', fileSize: 0,
-        })
+        await removeCacheFile(cache)
         freedSpace += cache.fileSize || 0
       } catch (e) {
         logger.warn(`清理缓存失败: ${cache.id}`, e)
@@ -248,25 +567,465 @@ export function apply(ctx: Context, config: Config) {
     }
   }
 
-  async function compressAudio(inputPath: string, outputPath: string): Promise<void> {
+  /**
+   * 将缓存目录与 ncm_cache 表对齐：删除临时文件，收录无记录的缓存文件（来源查不到的歌曲删除），
+   * 重置文件丢失的记录，并按磁盘上的实际大小修正 fileSize，最后按容量上限清理。
+   * startup 为 false 时跳过最近修改的临时文件，避免误删正在使用的文件。
+   */
+  async function reconcileCache(startup = false): Promise<CacheScanReport> {
+    const report: CacheScanReport = { adopted: 0, removed: 0, temp: 0, reset: 0, resized: 0 }
+    const cacheDir = path.resolve(config.cachePath)
+    const filenames = await fs.readdir(cacheDir).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return [] as string[]
+      throw error
+    })
+
+    const rows = await ctx.database.get('ncm_cache', {})
+    const rowsByFile = new Map<string, MusicCache>()
+    for (const row of rows) {
+      if (row.cachePath) rowsByFile.set(path.basename(row.cachePath), row)
+    }
+
+    const found = new Set<MusicCache>()
+    const orphans = new Map<string, { filePath: string; fileSize: number; id: string; quality: Quality }[]>()
+    for (const filename of filenames) {
+      const filePath = path.join(cacheDir, filename)
+      // 正在下载的文件尚未写入记录
+      if (downloads.has(filePath)) continue
+      const stat = await fs.stat(filePath).catch(() => undefined)
+      if (!stat?.isFile()) continue
+
+      if (isTempCacheFile(filename)) {
+        if (!startup && Date.now() - stat.mtimeMs < TEMP_FILE_MAX_AGE) continue
+        await fs.unlink(filePath).catch(() => { })
+        report.temp++
+        continue
+      }
+
+      const row = rowsByFile.get(filename)
+      if (row) {
+        found.add(row)
+        // 缓存目录迁移后记录中的路径可能已过期，指向当前目录中的同名文件
+        if (!row.cached || row.cachePath !== filePath || row.fileSize !== stat.size) {
+          if (row.cached && row.fileSize !== stat.size) report.resized++
+          if (!row.cached) report.adopted++
+          await ctx.database.set('ncm_cache', { id: row.id, quality: row.quality }, {
+            cached: true, cachePath: filePath, fileSize: stat.size,
+          })
+        }
+        continue
+      }
+
+      // 缓存目录可能与其他文件共用，不符合命名规则的文件以及来源尚未加载的缓存文件只记录、不删除
+      const parsed = parseCacheFilename(filename)
+      if (!parsed) {
+        logger.debug(`跳过非缓存文件: ${filename}`)
+      } else if (!providers.get(parsed.provider)) {
+        logger.debug(`跳过未注册来源的缓存文件: ${filename}`)
+      } else {
+        const list = orphans.get(parsed.provider) || []
+        list.push({ filePath, fileSize: stat.size, id: parsed.id, quality: parsed.quality })
+        orphans.set(parsed.provider, list)
+      }
+    }
+
+    // 无记录但符合命名规则的文件：优先沿用同一歌曲的已有记录，否则向来源查询歌曲信息后收录
+    for (const [name, files] of orphans) {
+      const provider = providers.get(name)!
+      let songs: SearchResult[]
+      try {
+        songs = await provider.getSongDetail([...new Set(files.map(file => file.id))])
+      } catch (error) {
+        // 查询失败时保留文件，下次校验再处理
+        logger.warn(`获取缓存歌曲信息失败: ${name}`, error)
+        continue
+      }
+
+      for (const file of files) {
+        const key = toSongKey(file.id, name)
+        const song = songs.find(song => String(song.id) === file.id)
+        const existing = rows.find(row => row.id === key)
+        if (!song && !existing) {
+          await fs.unlink(file.filePath).catch(() => { })
+          report.removed++
+          continue
+        }
+        const duration = song?.duration || 0
+        await ctx.database.upsert('ncm_cache', [{
+          id: key,
+          quality: file.quality,
+          name: song?.name ?? existing!.name,
+          artist: song?.artist ?? existing!.artist,
+          url: '',
+          cached: true,
+          cachePath: file.filePath,
+          fileSize: file.fileSize,
+          cacheTime: Date.now(),
+          bitrate: duration ? Math.round(file.fileSize * 8000 / duration) : existing?.bitrate || 0,
+          tagged: false,
+        }])
+        report.adopted++
+      }
+    }
+
+    for (const row of rows) {
+      if (!row.cached || found.has(row)) continue
+      await ctx.database.set('ncm_cache', { id: row.id, quality: row.quality }, {
+        cached: false, cachePath: '', fileSize: 0,
+      })
+      report.reset++
+    }
+
+    await cleanOldCache(0)
+    return report
+  }
+
+  /** 删除缓存文件并重置记录（包括访问统计），文件已不存在时视为删除成功 */
+  async function removeCacheFile(cache: MusicCache) {
+    if (cache.cachePath) {
+      await fs.unlink(cache.cachePath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error
+      })
+    }
+    await ctx.database.set('ncm_cache', { id: cache.id, quality: cache.quality }, {
+      cached: false, cachePath: '', fileSize: 0, lastAccess: 0, hits: 0,
+    })
+  }
+
+  /** 音效与压缩对应的 ffmpeg 输出参数；压缩在音效之后进行 */
+  function getProcessArgs(effect?: string, compress?: boolean): string[] {
+    const filter = effect && effects.get(effect)
+    const filters = filter ? [filter] : []
+    if (!compress) return ['-b:a', `${EFFECT_BITRATE}k`, ...filters.length ? ['-af', filters.join(',')] : []]
+    filters.push(`volume=${config.compressVolumeGain}dB`)
+    return [
+      '-b:a', `${config.compressBitrate}k`,
+      '-ar', String(config.compressSampleRate),
+      '-ac', String(config.compressChannels),
+      '-af', filters.join(','),
+    ]
+  }
+
+  /** 获取截取、音效处理或压缩后的音频；截取的片段与未缓存的歌曲（试听片段）处理到临时文件 */
+  async function getProcessedAudio(cache: MusicCache, options: SongRequestOptions, onProcess: () => Promise<void>): Promise<MusicCache> {
+    const { effect, compress, clip } = options
+    const args = getProcessArgs(effect, compress)
+    // 在输入端定位，只解码截取的部分
+    const inputArgs = clip ? ['-ss', (clip.start / 1000).toFixed(3), '-t', ((clip.end - clip.start) / 1000).toFixed(3)] : []
+    return getDerivedAudio(cache, {
+      variant: getVariantQuality(cache.quality, effect, compress).slice(cache.quality.length + 1),
+      signature: args.join(' '),
+      extension: 'mp3',
+      bitrate: (compress ? config.compressBitrate : EFFECT_BITRATE) * 1000,
+      produce: outputPath => processAudio(cache.cachePath!, outputPath, args, inputArgs),
+    }, !cache.cached || !!clip, onProcess)
+  }
+
+  /** 平台对应的语音编码，没有 silk 服务时以 AMR 代替 */
+  function getVoiceCodec(platform: string): VoiceCodec {
+    const codec = config.voiceCodecs[platform] || 'none'
+    return codec === 'silk' && !ctx.silk ? 'amr' : codec
+  }
+
+  /** 将音频编码为平台原生的语音格式，超出大小上限时抛出错误 */
+  async function getVoiceAudio(source: MusicCache, codec: Exclude<VoiceCodec, 'none'>): Promise<MusicCache> {
+    const maxSize = config.voiceMaxSize * 1024 * 1024
+    const { size } = await fs.stat(source.cachePath!)
+    const args = getVoiceArgs(codec, {
+      maxDuration: config.voiceMaxDuration,
+      maxSize,
+      duration: source.bitrate ? size * 8 / source.bitrate : undefined,
+    })
+    return getDerivedAudio(source, {
+      variant: codec,
+      signature: args.join(' '),
+      extension: VOICE_EXTENSIONS[codec],
+      bitrate: 0,
+      produce: async (outputPath) => {
+        if (codec === 'silk') {
+          const pcm = await ctx.ffmpeg.builder().input(source.cachePath!).outputOption(...args).run('buffer')
+          const { data } = await ctx.silk.encode(pcm, SILK_SAMPLE_RATE)
+          await fs.writeFile(outputPath, data)
+        } else {
+          await processAudio(source.cachePath!, outputPath, args)
+        }
+        const { size } = await fs.stat(outputPath)
+        if (maxSize && size > maxSize) throw new Error(`语音文件超出大小上限: ${size}`)
+      },
+    }, !source.cached, async () => { })
+  }
+
+  /**
+   * 获取由缓存音频派生的音频。已缓存音频的处理结果作为同一首歌的另一档缓存保存（如 exhigh+nightcore），
+   * 处理参数记录在 effect 字段中，参数变更后重新生成；temporary 时处理到临时文件，由调用方发送后删除。
+   * 需要等待处理时先调用 onProcess。
+   */
+  async function getDerivedAudio(source: MusicCache, derived: DerivedAudio, temporary: boolean, onProcess: () => Promise<void>): Promise<MusicCache> {
+    const quality = `${source.quality}+${derived.variant}`
+    const base = source.cachePath!.slice(0, -path.extname(source.cachePath!).length || undefined)
+    const outputPath = temporary
+      ? `${base}.${Date.now()}.tmp.${derived.extension}`
+      : `${base}+${derived.variant}.${derived.extension}`
+    const result: MusicCache = {
+      id: source.id,
+      quality,
+      name: source.name,
+      artist: source.artist,
+      url: '',
+      cached: !temporary,
+      cachePath: outputPath,
+      bitrate: derived.bitrate,
+      effect: derived.signature,
+    }
+
+    const produce = async () => {
+      await fs.unlink(outputPath).catch(() => { })
+      try {
+        await derived.produce(outputPath)
+      } catch (error) {
+        await fs.unlink(outputPath).catch(() => { })
+        throw error
+      }
+    }
+
+    if (temporary) {
+      await onProcess()
+      await produce()
+      return result
+    }
+
+    const [existing] = await ctx.database.get('ncm_cache', { id: source.id, quality })
+    if (existing?.cached && existing.cachePath && existing.effect === derived.signature) {
+      try {
+        await fs.access(existing.cachePath)
+        return existing
+      } catch { }
+    }
+
+    // 同一首歌同一处理方式的并发请求共用一次处理
+    await onProcess()
+    const running = downloads.get(outputPath)
+    if (running) return running
+    const task = (async () => {
+      await produce()
+      const { size: fileSize } = await fs.stat(outputPath)
+      await cleanOldCache(fileSize)
+      Object.assign(result, { fileSize, cacheTime: Date.now(), tagged: false })
+      await ctx.database.upsert('ncm_cache', [result])
+      return result
+    })()
+    downloads.set(outputPath, task)
+    task.catch(() => { }).then(() => downloads.delete(outputPath))
+    return task
+  }
+
+  /** 调用 ffmpeg 处理音频 */
+  async function processAudio(inputPath: string, outputPath: string, args: string[], inputArgs: string[] = []): Promise<void> {
     await ctx.ffmpeg.builder()
+      .inputOption(...inputArgs)
       .input(inputPath)
-      .outputOption(
-        '-b:a', `${config.compressBitrate}k`,
-        '-ar', String(config.compressSampleRate),
-        '-ac', String(config.compressChannels),
-        '-af', `volume=${config.compressVolumeGain}dB`,
-      )
+      .outputOption(...args)
       .run('file', outputPath)
   }
 
+  /** 将链接解析为对应资源ID，短链接需要先请求重定向地址 */
+  async function resolveLink(link: ResourceLink, type: ResourceType = 'song'): Promise<string | undefined> {
+    if (link.type === 'id') return link.id
+    const target = await ncm.resolveShortLink(link.url)
+    const resolved = target ? matchResourceLink(target, type) : undefined
+    if (resolved?.type === 'id') return resolved.id
+  }
+
+  /** 按链接或ID获取歌曲信息，不经过关键词搜索 */
+  async function getSongByLink(link: ResourceLink): Promise<SearchResult | undefined> {
+    const id = await resolveLink(link)
+    if (!id) return
+    const [song] = await ncm.getSongDetail([id])
+    return song
+  }
+
+  /** 将指令选项转换为点歌参数，参数无效或缺少 ffmpeg 时返回提示 */
+  function resolveRequestOptions(session: Session, options: SendOptions): SongRequestOptions | string {
+    if (options.quality && !isQuality(options.quality)) return session.text('commands.ncmget.messages.invalid-quality')
+    const effect = options.effect?.toLowerCase()
+    const clip = options.clip ? parseTimeRange(options.clip) : undefined
+    if (options.clip && !clip) return session.text('commands.ncmget.messages.invalid-clip')
+    if ((options.compress || effect || clip || options.chorus) && !ctx.ffmpeg) {
+      return session.text('commands.ncmget.messages.ffmpeg-missing')
+    }
+    if (effect && !effects.has(effect)) {
+      return session.text('commands.ncmget.messages.invalid-effect', [effect, [...effects.keys()].join('/')])
+    }
+
+    // 片段默认以语音发送
+    const sendFormat: Config['sendFormat'] | undefined = options.card
+      ? 'card'
+      : options.file
+        ? 'file'
+        : options.compress || options.audio || clip || options.chorus ? 'audio' : undefined
+    return {
+      sendFormat,
+      compress: !!options.compress,
+      effect,
+      clip,
+      chorus: !!options.chorus,
+      quality: options.quality as Quality | undefined,
+    }
+  }
+
+  function formatSong(song: SearchResult, index: number): string {
+    return `${index + 1}. ${song.name} - ${song.artist} ${ncm.getFeeTag(song.fee)} [${ncm.formatDuration(song.duration)}]`
+  }
+
+  function setSearchSession(sessionKey: string, data: Omit<SearchSession, 'timeout'>) {
+    clearSearchSession(sessionKey)
+    const timeout = setTimeout(() => clearSearchSession(sessionKey), config.searchTimeout * 1000)
+    searchSessions.set(sessionKey, { ...data, timeout })
+  }
+
+  /** 按会话类型请求关键词搜索的指定页 */
+  async function fetchSearchPage(action: SearchSession['action'], keyword: string, page: number, provider = config.provider): Promise<SearchPage<SearchItem>> {
+    const offset = page * config.searchPageSize
+    if (action === 'artist') return ncm.searchArtist(keyword, config.searchPageSize, offset)
+    if (action === 'album') return ncm.searchAlbum(keyword, config.searchPageSize, offset)
+    if (action === 'playlist') return ncm.searchPlaylist(keyword, config.searchPageSize, offset)
+    return providers.search(provider, keyword, config.searchPageSize, offset)
+  }
+
+  function formatSearchItem(session: Session, action: SearchSession['action'], item: SearchItem, index: number): string {
+    if (action === 'artist') {
+      const artist = item as ArtistResult
+      return `${index + 1}. ${artist.name}${artist.alias ? ` (${artist.alias})` : ''}`
+    }
+    if (action === 'album') {
+      const album = item as AlbumResult
+      return `${index + 1}. ${album.name} - ${album.artist} (${session.text('commands.ncmalbum.messages.track-count', [album.size])})`
+    }
+    if (action === 'playlist') {
+      const playlist = item as PlaylistResult
+      return `${index + 1}. ${playlist.name} - ${playlist.creator} (${session.text('commands.ncmalbum.messages.track-count', [playlist.trackCount])})`
+    }
+    return formatSong(item as SearchResult, index)
+  }
+
+  /** 发送当前页的搜索结果，序号按总排名连续编号 */
+  async function sendSearchPage(session: Session, searchSession: Omit<SearchSession, 'timeout'>) {
+    const page = searchSession.page || 0
+    const offset = page * config.searchPageSize
+    const resultText = searchSession.results
+      .map((item, idx) => formatSearchItem(session, searchSession.action, item, offset + idx))
+      .join('\n')
+
+    let searchText = config.mergeSearchResults
+      ? session.text('commands.ncmget.messages.search-results', [resultText])
+      : `${session.text('commands.ncmget.messages.search-prompt')}\n${resultText}`
+
+    const total = searchSession.total ?? searchSession.results.length
+    const pageCount = Math.ceil(total / config.searchPageSize)
+    if (pageCount > 1) {
+      searchText += '\n' + session.text('commands.ncmget.messages.search-page', [page + 1, pageCount, total])
+    }
+
+    await session.send(searchText)
+  }
+
+  /** 发送搜索结果第一页并登记选歌会话，由选歌中间件接管后续回复 */
+  async function startSearchSession(
+    session: Session,
+    keyword: string,
+    result: SearchPage<SearchItem>,
+    data: Omit<SearchSession, 'results' | 'timeout' | 'keyword' | 'total' | 'page'>,
+  ) {
+    const searchSession = { ...data, keyword, total: result.total, results: result.items, page: 0 }
+    await sendSearchPage(session, searchSession)
+    setSearchSession(getSessionKey(session), searchSession)
+  }
+
+  async function sendTrackPage(session: Session, searchSession: Omit<SearchSession, 'timeout'>) {
+    const page = searchSession.page || 0
+    const pageCount = Math.ceil(searchSession.results.length / config.trackPageSize)
+    const start = page * config.trackPageSize
+    const trackText = searchSession.results
+      .slice(start, start + config.trackPageSize)
+      .map((song, idx) => formatSong(song, start + idx))
+      .join('\n')
+
+    await session.send([
+      session.text('commands.ncmplaylist.messages.track-page', [searchSession.title, page + 1, pageCount, searchSession.results.length]),
+      trackText,
+      session.text('commands.ncmplaylist.messages.track-hint'),
+    ].join('\n'))
+  }
+
+  /** 分页展示歌单/专辑曲目并登记选歌会话，支持翻页与多选 */
+  async function startTrackSession(session: Session, list: TrackList, request: SongRequestOptions) {
+    // 只沿用发送参数，request 可能来自携带关键词的搜索会话
+    const data = {
+      sendFormat: request.sendFormat,
+      compress: request.compress,
+      effect: request.effect,
+      clip: request.clip,
+      chorus: request.chorus,
+      quality: request.quality,
+      action: 'song' as const,
+      results: list.tracks,
+      page: 0,
+      title: list.name,
+    }
+    await sendTrackPage(session, data)
+    setSearchSession(getSessionKey(session), data)
+  }
+
+  /** 获取歌手热门歌曲、专辑或歌单曲目并进入曲目选择，列表为空时返回提示 */
+  async function openTrackList(session: Session, type: ListType, id: string, request: SongRequestOptions): Promise<string | undefined> {
+    const list = type === 'artist'
+      ? await ncm.getArtistTopSongs(id)
+      : type === 'album' ? await ncm.getAlbum(id) : await ncm.getPlaylist(id)
+    if (!list.tracks.length) return session.text('commands.ncmplaylist.messages.empty')
+    await startTrackSession(session, list, request)
+  }
+
+  /** 按类型搜索歌手/专辑/歌单；ID、链接或唯一结果直接展开曲目，否则列出搜索结果 */
+  async function searchTrackList(session: Session, type: ListType, keyword: string, request: SongRequestOptions): Promise<string | undefined> {
+    const messages = LIST_MESSAGES[type]
+    try {
+      const link = parseResourceId(keyword, type)
+      if (link) {
+        const id = await resolveLink(link, type)
+        if (!id) return session.text(messages.noResults)
+        return await openTrackList(session, type, id, request)
+      }
+
+      const result = await fetchSearchPage(type, keyword, 0)
+      if (!result.items.length) return session.text(messages.noResults)
+
+      if (result.total === 1) {
+        return await openTrackList(session, type, result.items[0].id, request)
+      }
+
+      await startSearchSession(session, keyword, result, { ...request, action: type })
+    } catch (error) {
+      logger.error(`获取${messages.label}失败:`, error)
+      return session.text(messages.error)
+    }
+  }
+
   // --- 命令注册 ---
 
   ctx.command('ncmget <keyword:text>', '获取网易云音乐')
     .alias('网易云')
     .option('audio', '-a 以语音格式发送')
     .option('file', '-f 以文件格式发送')
+    .option('card', '-c 以音乐卡片发送')
     .option('compress', '-z 全损压缩并以语音发送')
+    .option('effect', '-e <effect:string> 音效预设 (nightcore/slowed/reverb/8d/bassboost/normalize 或自定义)')
+    .option('clip', '--clip <range:string> 截取片段并以语音发送，如 1:00-1:30')
+    .option('chorus', '--chorus 只发送副歌片段（默认以语音发送）')
+    .option('quality', '-q <quality:string> 音质 (standard/higher/exhigh/lossless/hires)')
+    .option('artist', '--artist 搜索歌手，选择后列出热门歌曲')
+    .option('album', '--album 搜索专辑，选择后列出曲目')
+    .option('playlist', '--playlist 搜索歌单，选择后列出曲目')
+    .option('provider', '--provider <name:string> 音乐来源')
     .action(async ({ session, options }, keyword) => {
       if (!session || !keyword) return session?.text('commands.ncmget.messages.no-keyword')
       if (!ncm) {
@@ -282,179 +1041,1319 @@ export function apply(ctx: Context, config: Config) {
       // 合并 parseArgs 解析出的选项
       if (parsed.options.audio) (options as any).audio = true
       if (parsed.options.file) (options as any).file = true
+      if (parsed.options.card) (options as any).card = true
       if (parsed.options.compress) (options as any).compress = true
-
-      const compress = !!(options as any).compress
-      if (compress && !ctx.ffmpeg) {
-        return session.text('commands.ncmget.messages.ffmpeg-missing')
+      if (parsed.options.quality) (options as any).quality = parsed.options.quality
+      if (parsed.options.effect) (options as any).effect = parsed.options.effect
+      if (parsed.options.clip) (options as any).clip = parsed.options.clip
+      if (parsed.options.chorus) (options as any).chorus = true
+      for (const type of LIST_TYPES) {
+        if (parsed.options[type]) (options as any)[type] = true
       }
 
-      const sessionKey = getSessionKey(session)
-      const forcedSendFormat: Config['sendFormat'] | undefined = (() => {
-        if ((options as any).file) return 'file'
-        if (compress || (options as any).audio) return 'audio'
-      })()
+      const request = resolveRequestOptions(session, options as SendOptions)
+      if (typeof request === 'string') return request
+
+      const listType = LIST_TYPES.find(type => (options as SendOptions)[type])
+      if (listType) return searchTrackList(session, listType, keyword, request)
+
+      const provider = options?.provider || config.provider
+      if (!providers.get(provider)) {
+        return session.text('commands.ncmget.messages.invalid-provider', [providers.list().join('、')])
+      }
 
       try {
-        const results = await ncm.searchMusic(keyword, config.searchPageSize)
-        if (!results || results.length === 0) {
+        const link = parseSongId(keyword)
+        if (link) {
+          const song = await getSongByLink(link)
+          if (!song) return session.text('commands.ncmget.messages.no-results')
+          await handleSongRequest(session, song, request)
+          return
+        }
+
+        const result = await providers.search(provider, keyword, config.searchPageSize)
+        if (!result.items.length) {
           return session.text('commands.ncmget.messages.no-results')
         }
 
-        if (results.length === 1) {
-          await handleSongRequest(session, results[0], forcedSendFormat, compress)
+        if (result.total === 1) {
+          await handleSongRequest(session, result.items[0], request)
           return
         }
 
-        const resultText = results.map((song, idx) =>
-          `${idx + 1}. ${song.name} - ${song.artist} ${ncm.getFeeTag(song.fee)} [${ncm.formatDuration(song.duration)}]`
-        ).join('\n')
+        await startSearchSession(session, keyword, result, { ...request, action: 'song', provider })
+      } catch (error) {
+        logger.error('搜索失败:', error)
+        return session.text('commands.ncmget.messages.search-error')
+      }
+    })
+
+  ctx.command('ncmlyric <keyword:text>', '获取网易云音乐歌词')
+    .alias('歌词')
+    .action(async ({ session }, keyword) => {
+      if (!session || !keyword?.trim()) return session?.text('commands.ncmlyric.messages.no-keyword')
+      if (!checkRateLimit(session)) return
+
+      try {
+        const link = parseSongId(keyword)
+        if (link) {
+          const song = await getSongByLink(link)
+          if (!song) return session.text('commands.ncmget.messages.no-results')
+          await handleLyricRequest(session, song)
+          return
+        }
 
-        const searchText = config.mergeSearchResults
-          ? session.text('commands.ncmget.messages.search-results', [resultText])
-          : `${session.text('commands.ncmget.messages.search-prompt')}\n${resultText}`
+        const result = await providers.search(config.provider, keyword.trim(), config.searchPageSize)
+        if (!result.items.length) {
+          return session.text('commands.ncmget.messages.no-results')
+        }
 
-        await session.send(searchText)
+        if (result.total === 1) {
+          await handleLyricRequest(session, result.items[0])
+          return
+        }
 
-        const timeout = setTimeout(() => clearSearchSession(sessionKey), config.searchTimeout * 1000)
-        searchSessions.set(sessionKey, { results, timeout, sendFormat: forcedSendFormat, compress })
+        await startSearchSession(session, keyword.trim(), result, { action: 'lyric' })
       } catch (error) {
         logger.error('搜索失败:', error)
         return session.text('commands.ncmget.messages.search-error')
       }
     })
 
-  // --- 用户选歌中间件 ---
+  ctx.command('ncmplaylist <target:text>', '获取网易云歌单')
+    .alias('歌单')
+    .option('audio', '-a 以语音格式发送')
+    .option('file', '-f 以文件格式发送')
+    .option('card', '-c 以音乐卡片发送')
+    .option('compress', '-z 全损压缩并以语音发送')
+    .option('effect', '-e <effect:string> 音效预设 (nightcore/slowed/reverb/8d/bassboost/normalize 或自定义)')
+    .option('clip', '--clip <range:string> 截取片段并以语音发送，如 1:00-1:30')
+    .option('chorus', '--chorus 只发送副歌片段（默认以语音发送）')
+    .option('quality', '-q <quality:string> 音质 (standard/higher/exhigh/lossless/hires)')
+    .action(async ({ session, options = {} }, target) => {
+      if (!session || !target?.trim()) return session?.text('commands.ncmplaylist.messages.no-target')
+      if (!checkRateLimit(session)) return
+      const request = resolveRequestOptions(session, options)
+      if (typeof request === 'string') return request
 
-  ctx.middleware(async (session, next) => {
-    const sessionKey = getSessionKey(session)
-    const searchSession = searchSessions.get(sessionKey)
-    if (!searchSession) return next()
+      // 歌单没有关键词搜索，纯数字一律视为ID
+      const link: ResourceLink | undefined = /^\d+$/.test(target.trim())
+        ? { type: 'id', id: target.trim() }
+        : matchResourceLink(target, 'playlist')
+      if (!link) return session.text('commands.ncmplaylist.messages.invalid-target')
 
-    const input = session.stripped?.content?.trim() ?? session.content?.trim()
-    if (!input || !/^\d+$/.test(input)) return next()
+      try {
+        const id = await resolveLink(link, 'playlist')
+        if (!id) return session.text('commands.ncmplaylist.messages.invalid-target')
 
-    const index = parseInt(input) - 1
+        const playlist = await ncm.getPlaylist(id)
+        if (!playlist.tracks.length) return session.text('commands.ncmplaylist.messages.empty')
 
-    if (index === -1) {
-      clearSearchSession(sessionKey)
-      await session.send(session.text('commands.ncmget.messages.search-cancelled'))
-      return
-    }
+        await startTrackSession(session, playlist, request)
+      } catch (error) {
+        logger.error('获取歌单失败:', error)
+        return session.text('commands.ncmplaylist.messages.playlist-error')
+      }
+    })
 
-    if (index >= 0 && index < searchSession.results.length) {
-      clearSearchSession(sessionKey)
-      await handleSongRequest(session, searchSession.results[index], searchSession.sendFormat, searchSession.compress)
-      return
-    }
+  ctx.command('ncmalbum <target:text>', '获取网易云专辑')
+    .alias('专辑')
+    .option('audio', '-a 以语音格式发送')
+    .option('file', '-f 以文件格式发送')
+    .option('card', '-c 以音乐卡片发送')
+    .option('compress', '-z 全损压缩并以语音发送')
+    .option('effect', '-e <effect:string> 音效预设 (nightcore/slowed/reverb/8d/bassboost/normalize 或自定义)')
+    .option('clip', '--clip <range:string> 截取片段并以语音发送，如 1:00-1:30')
+    .option('chorus', '--chorus 只发送副歌片段（默认以语音发送）')
+    .option('quality', '-q <quality:string> 音质 (standard/higher/exhigh/lossless/hires)')
+    .action(async ({ session, options = {} }, target) => {
+      if (!session || !target?.trim()) return session?.text('commands.ncmalbum.messages.no-keyword')
+      if (!checkRateLimit(session)) return
+      const request = resolveRequestOptions(session, options)
+      if (typeof request === 'string') return request
 
-    return next()
-  })
+      return searchTrackList(session, 'album', target.trim(), request)
+    })
 
-  // --- 歌曲处理 ---
+  ctx.command('ncmqueue', '点歌队列')
+    .alias('点歌队列')
 
-  async function handleSongRequest(session: Session, song: any, sendFormatOverride?: Config['sendFormat'], compress?: boolean) {
-    try {
-      const cache = await ctx.database.get('ncm_cache', { id: song.id })
-      let cacheEntry: MusicCache | undefined = cache[0]
+  ctx.command('ncmqueue.add <keyword:text>', '添加歌曲到队列')
+    .action(async ({ session }, keyword) => {
+      if (!session || !keyword?.trim()) return session?.text('commands.ncmget.messages.no-keyword')
+      if (!checkRateLimit(session)) return
 
-      if (cacheEntry?.cached && cacheEntry.cachePath) {
-        try {
-          await fs.access(cacheEntry.cachePath)
-          await sendCachedSong(session, cacheEntry, sendFormatOverride, compress)
+      try {
+        const link = parseSongId(keyword)
+        if (link) {
+          const song = await getSongByLink(link)
+          if (!song) return session.text('commands.ncmget.messages.no-results')
+          await addToQueue(session, song)
           return
-        } catch {
-          await ctx.database.set('ncm_cache', { id: cacheEntry.id }, {
-            cached: false, cachePath: '', fileSize: 0,
-          })
-          // 记录仍存在于数据库中，保留 cacheEntry 标记以便后续走 update 路径
         }
-      }
-
-      const urlInfo = await ncm.getSongUrl(song.id, config.bitrate)
-      if (!urlInfo?.url) {
-        await session.send(session.text('commands.ncmget.messages.song-unavailable'))
-        return
-      }
 
-      const sanitizedId = String(song.id).replace(/[^a-zA-Z0-9-]/g, '')
-      if (!sanitizedId) {
-        logger.error('非法歌曲ID:', song.id)
-        await session.send(session.text('commands.ncmget.messages.download-error'))
-        return
-      }
+        const result = await providers.search(config.provider, keyword.trim(), config.searchPageSize)
+        if (!result.items.length) {
+          return session.text('commands.ncmget.messages.no-results')
+        }
 
-      if (downloadLocks.has(sanitizedId)) {
-        await session.send(session.text('commands.ncmget.messages.downloading'))
-        return
-      }
+        if (result.total === 1) {
+          await addToQueue(session, result.items[0])
+          return
+        }
 
-      const savePath = path.resolve(config.cachePath, `${sanitizedId}.mp3`)
-      if (!savePath.startsWith(path.resolve(config.cachePath))) {
-        logger.error('路径安全检查失败:', savePath)
-        await session.send(session.text('commands.ncmget.messages.download-error'))
+        await startSearchSession(session, keyword.trim(), result, { action: 'queue' })
+      } catch (error) {
+        logger.error('搜索失败:', error)
+        return session.text('commands.ncmget.messages.search-error')
+      }
+    })
+
+  ctx.command('ncmqueue.list', '查看队列')
+    .action(async ({ session }) => {
+      if (!session) return
+      const channel = getChannelKey(session)
+      const queue = await getQueue(channel)
+      const current = nowPlaying.get(channel)
+
+      const lines: string[] = []
+      if (current) {
+        lines.push(session.text('commands.ncmqueue.list.messages.now-playing', [current.name, current.artist]))
+      }
+      if (!queue.length) {
+        lines.push(session.text('commands.ncmqueue.messages.empty'))
+        return lines.join('\n')
+      }
+
+      lines.push(session.text('commands.ncmqueue.list.messages.header', [queue.length]))
+      queue.forEach((item, idx) => {
+        lines.push(`${idx + 1}. ${item.name} - ${item.artist} [${ncm.formatDuration(item.duration)}]`)
+      })
+      return lines.join('\n')
+    })
+
+  ctx.command('ncmqueue.next', '播放队列中的下一首')
+    .action(async ({ session }) => {
+      if (!session) return
+      const queue = await getQueue(getChannelKey(session))
+      if (!queue.length) return session.text('commands.ncmqueue.messages.empty')
+      await playNextInQueue(session)
+    })
+
+  ctx.command('ncmqueue.skip', '跳过当前或下一首歌曲')
+    .action(async ({ session }) => {
+      if (!session) return
+      const channel = getChannelKey(session)
+
+      // 自动连播进行中：跳过当前歌曲，立即播放下一首
+      if (queueTimers.has(channel)) {
+        await playNextInQueue(session)
         return
       }
 
-      await session.send(session.text('commands.ncmget.messages.downloading'))
-      downloadLocks.add(sanitizedId)
+      const [item] = await getQueue(channel)
+      if (!item) return session.text('commands.ncmqueue.messages.empty')
+      await ctx.database.remove('ncm_queue', { id: item.id })
+      return session.text('commands.ncmqueue.skip.messages.skipped', [item.name, item.artist])
+    })
+
+  ctx.command('ncmqueue.clear', '清空队列')
+    .action(async ({ session }) => {
+      if (!session) return
+      const channel = getChannelKey(session)
+      stopAutoAdvance(channel)
+      nowPlaying.delete(channel)
+      await ctx.database.remove('ncm_queue', { channel })
+      return session.text('commands.ncmqueue.clear.messages.cleared')
+    })
+
+  ctx.command('ncmhistory', '查看点歌历史')
+    .alias('点歌历史')
+    .action(async ({ session }) => {
+      if (!session?.userId) return
+      const history = await getHistory(getUserKey(session))
+      if (!history.length) return session.text('commands.ncmhistory.messages.empty')
+      return [
+        session.text('commands.ncmhistory.messages.header', [history.length]),
+        ...history.map(formatSavedSong),
+      ].join('\n')
+    })
+
+  ctx.command('ncmhistory.play <index:posint>', '重播点歌历史中的歌曲')
+    .action(async ({ session }, index) => {
+      if (!session?.userId) return
+      const history = await getHistory(getUserKey(session))
+      const item = index ? history[index - 1] : undefined
+      if (!item) return session.text('commands.ncmhistory.messages.invalid-index')
+      if (!checkRateLimit(session)) return
+      await replaySong(session, item)
+    })
+
+  ctx.command('ncmfav', '收藏歌曲')
+    .alias('收藏')
 
+  ctx.command('ncmfav.add [target:text]', '收藏歌曲（ID或链接，省略时收藏最近点的歌）')
+    .action(async ({ session }, target) => {
+      if (!session?.userId) return
+      const userId = getUserKey(session)
+
+      let song: { id: string; name: string; artist: string; duration: number } | undefined
       try {
-        await cleanOldCache(urlInfo.size)
-        await ncm.downloadSong(urlInfo.url, savePath)
-
-        const cacheData: MusicCache = {
-          id: String(song.id),
-          name: song.name,
-          artist: song.artist,
-          url: urlInfo.url,
-          cached: true,
-          cachePath: savePath,
-          fileSize: urlInfo.size,
-          cacheTime: Date.now(),
-          bitrate: urlInfo.br,
+        if (target?.trim()) {
+          const link = parseSongId(target)
+          if (!link) return session.text('commands.ncmfav.add.messages.no-song')
+          song = await getSongByLink(link)
+          if (!song) return session.text('commands.ncmget.messages.no-results')
+        } else {
+          const [latest] = await getHistory(userId)
+          if (!latest) return session.text('commands.ncmfav.add.messages.no-song')
+          song = { id: latest.songId, name: latest.name, artist: latest.artist, duration: latest.duration }
         }
+      } catch (error) {
+        logger.error('获取歌曲信息失败:', error)
+        return session.text('commands.ncmget.messages.search-error')
+      }
+
+      const songKey = toSongKey(song.id)
+      const favorites = await getFavorites(userId)
+      if (favorites.some(item => toSongKey(item.songId) === songKey)) {
+        return session.text('commands.ncmfav.add.messages.exists', [song.name])
+      }
+      if (favorites.length >= config.favoriteMaxLength) {
+        return session.text('commands.ncmfav.add.messages.full', [config.favoriteMaxLength])
+      }
+
+      await ctx.database.create('ncm_favorite', {
+        userId,
+        songId: songKey,
+        name: song.name,
+        artist: song.artist,
+        duration: song.duration || 0,
+        addTime: Date.now(),
+      })
+      return session.text('commands.ncmfav.add.messages.added', [song.name, song.artist, favorites.length + 1])
+    })
+
+  ctx.command('ncmfav.remove <index:posint>', '取消收藏')
+    .action(async ({ session }, index) => {
+      if (!session?.userId) return
+      const favorites = await getFavorites(getUserKey(session))
+      const item = index ? favorites[index - 1] : undefined
+      if (!item) return session.text('commands.ncmfav.messages.invalid-index')
+      await ctx.database.remove('ncm_favorite', { id: item.id })
+      return session.text('commands.ncmfav.remove.messages.removed', [item.name, item.artist])
+    })
+
+  ctx.command('ncmfav.list', '查看收藏')
+    .action(async ({ session }) => {
+      if (!session?.userId) return
+      const favorites = await getFavorites(getUserKey(session))
+      if (!favorites.length) return session.text('commands.ncmfav.messages.empty')
+      return [
+        session.text('commands.ncmfav.list.messages.header', [favorites.length]),
+        ...favorites.map(formatSavedSong),
+      ].join('\n')
+    })
+
+  ctx.command('ncmfav.play <index:posint>', '播放收藏中的歌曲')
+    .action(async ({ session }, index) => {
+      if (!session?.userId) return
+      const favorites = await getFavorites(getUserKey(session))
+      const item = index ? favorites[index - 1] : undefined
+      if (!item) return session.text('commands.ncmfav.messages.invalid-index')
+      if (!checkRateLimit(session)) return
+      await replaySong(session, item)
+    })
 
-        // upsert 自动处理「新增/更新」，彻底避免主键冲突和竞态问题
-        await ctx.database.upsert('ncm_cache', [cacheData])
+  ctx.command('ncmstats [period:string]', '查看点歌排行与统计')
+    .alias('点歌统计')
+    .action(async ({ session }, period = 'week') => {
+      if (!session) return
+      const selected = STATS_PERIODS[period.trim().toLowerCase()]
+      if (!selected) return session.text('commands.ncmstats.messages.invalid-period')
 
-        await sendCachedSong(session, cacheData, sendFormatOverride, compress)
+      try {
+        const since = Date.now() - selected.days * 24 * 60 * 60 * 1000
+        return await formatStats(session, getChannelKey(session), since, selected.key)
+      } catch (error) {
+        logger.error('获取点歌统计失败:', error)
+        return session.text('commands.ncmstats.messages.stats-error')
+      }
+    })
+
+  ctx.command('ncmlogin', '扫码登录网易云音乐', { authority: 3 })
+    .action(async ({ session }) => {
+      if (!session) return
+      if (loginPending) return session.text('commands.ncmlogin.messages.pending')
+      loginPending = true
+
+      try {
+        const unikey = await ncm.createLoginQrKey()
+        const qrcode = await QRCode.toBuffer(ncm.getLoginQrUrl(unikey), { margin: 2, width: 300 })
+        await session.send([h.image(qrcode, 'image/png'), h.text(session.text('commands.ncmlogin.messages.scan-prompt'))])
+
+        const deadline = Date.now() + LOGIN_TIMEOUT
+        let scanned = false
+        while (Date.now() < deadline) {
+          await ctx.sleep(LOGIN_POLL_INTERVAL)
+          const status = await ncm.checkLoginQr(unikey)
+          if (status.code === 800) break
+          if (status.code === 803) return session.text('commands.ncmlogin.messages.success')
+          if (status.code === 802 && !scanned) {
+            scanned = true
+            await session.send(session.text('commands.ncmlogin.messages.scanned', [status.nickname || '']))
+          }
+        }
+        return session.text('commands.ncmlogin.messages.expired')
+      } catch (error) {
+        logger.error('扫码登录失败:', error)
+        return session.text('commands.ncmlogin.messages.login-error')
+      } finally {
+        loginPending = false
+      }
+    })
+
+  ctx.command('ncmaccount', '查看网易云账号与 Cookie 状态', { authority: 3 })
+    .action(async ({ session }) => {
+      if (!session) return
+      if (!ncm.hasLoginCookie()) return session.text('commands.ncmaccount.messages.no-cookie')
+
+      try {
+        const status = await ncm.getAccountStatus()
+        if (!status.loggedIn) return session.text('commands.ncmaccount.messages.not-logged-in')
+        return formatAccountStatus(session, status)
+      } catch (error) {
+        logger.error('获取账号信息失败:', error)
+        return session.text('commands.ncmaccount.messages.account-error')
+      }
+    })
+
+  ctx.command('ncmcache', '管理歌曲缓存', { authority: 3 })
+
+  ctx.command('ncmcache.stats', '查看缓存占用与命中率', { authority: 3 })
+    .action(async ({ session }) => {
+      if (!session) return
+      const caches = await ctx.database.get('ncm_cache', { cached: true })
+      const size = caches.reduce((sum, cache) => sum + (cache.fileSize || 0), 0)
+      const { hits, downloads } = await countSendSources({})
+      const rate = hits + downloads ? (hits / (hits + downloads) * 100).toFixed(1) : '0.0'
+      return session.text('commands.ncmcache.stats.messages.stats', [
+        caches.length,
+        formatSize(size),
+        formatSize(config.cacheMaxSize * 1024 * 1024),
+        hits,
+        hits + downloads,
+        rate,
+      ])
+    })
+
+  ctx.command('ncmcache.list [page:posint]', '列出缓存歌曲（按最近访问排序）', { authority: 3 })
+    .action(async ({ session }, page = 1) => {
+      if (!session) return
+      const caches = await ctx.database.get('ncm_cache', { cached: true })
+      if (!caches.length) return session.text('commands.ncmcache.messages.empty')
+      caches.sort((a, b) => getLastAccess(b) - getLastAccess(a))
+
+      const pageCount = Math.ceil(caches.length / CACHE_LIST_PAGE_SIZE)
+      if (page > pageCount) return session.text('commands.ncmcache.list.messages.invalid-page', [pageCount])
+      const offset = (page - 1) * CACHE_LIST_PAGE_SIZE
+      return [
+        session.text('commands.ncmcache.list.messages.header', [caches.length, page, pageCount]),
+        ...caches.slice(offset, offset + CACHE_LIST_PAGE_SIZE).map((cache, index) => session.text(
+          'commands.ncmcache.list.messages.item',
+          [offset + index + 1, cache.name, cache.artist, cache.id, cache.quality, formatSize(cache.fileSize || 0), cache.hits || 0],
+        )),
+      ].join('\n')
+    })
+
+  ctx.command('ncmcache.remove <id:string>', '删除指定歌曲的缓存（所有音质）', { authority: 3 })
+    .action(async ({ session }, id) => {
+      if (!session) return
+      if (!id?.trim()) return session.text('commands.ncmcache.remove.messages.no-id')
+      const caches = await ctx.database.get('ncm_cache', { id: toSongKey(id.trim()), cached: true })
+      if (!caches.length) return session.text('commands.ncmcache.remove.messages.not-found', [id.trim()])
+
+      let size = 0
+      for (const cache of caches) {
+        try {
+          await removeCacheFile(cache)
+          size += cache.fileSize || 0
+        } catch (error) {
+          logger.warn(`删除缓存失败: ${cache.id}`, error)
+        }
+      }
+      return session.text('commands.ncmcache.remove.messages.removed', [caches[0].name, caches[0].artist, formatSize(size)])
+    })
+
+  ctx.command('ncmcache.clear', '清空全部缓存', { authority: 3 })
+    .action(async ({ session }) => {
+      if (!session) return
+      const caches = await ctx.database.get('ncm_cache', { cached: true })
+      if (!caches.length) return session.text('commands.ncmcache.messages.empty')
+
+      let count = 0, size = 0
+      for (const cache of caches) {
+        try {
+          await removeCacheFile(cache)
+          count++
+          size += cache.fileSize || 0
+        } catch (error) {
+          logger.warn(`删除缓存失败: ${cache.id}`, error)
+        }
+      }
+      return session.text('commands.ncmcache.clear.messages.cleared', [count, formatSize(size)])
+    })
+
+  ctx.command('ncmcache.scan', '校验缓存目录与数据库记录', { authority: 3 })
+    .action(async ({ session }) => {
+      if (!session) return
+      try {
+        const report = await reconcileCache()
+        return session.text('commands.ncmcache.scan.messages.done', [
+          report.adopted, report.removed, report.temp, report.reset, report.resized,
+        ])
+      } catch (error) {
+        logger.error('校验缓存失败:', error)
+        return session.text('commands.ncmcache.scan.messages.scan-error')
+      }
+    })
+
+  ctx.command('ncmcache.prewarm <target:text>', '预先缓存搜索结果或歌单中的歌曲', { authority: 3 })
+    .option('playlist', '-l 将纯数字视为歌单ID')
+    .action(async ({ session, options = {} }, target) => {
+      if (!session) return
+      if (!target?.trim()) return session.text('commands.ncmcache.prewarm.messages.no-target')
+      target = target.trim()
+
+      let songs: SearchResult[]
+      try {
+        // 歌单链接或带 -l 的歌单ID按歌单预热，其余按关键词搜索
+        const link: ResourceLink | undefined = options.playlist && /^\d+$/.test(target)
+          ? { type: 'id', id: target }
+          : matchResourceLink(target, 'playlist')
+        const playlistId = link && await resolveLink(link, 'playlist')
+        if (link && !playlistId) return session.text('commands.ncmplaylist.messages.invalid-target')
+
+        songs = playlistId
+          ? (await ncm.getPlaylist(playlistId)).tracks.slice(0, PREWARM_MAX_SONGS).map(song => ({ ...song, id: toSongKey(song.id) }))
+          : (await providers.search(config.provider, target, config.searchPageSize)).items
+      } catch (error) {
+        logger.error('获取预热歌曲失败:', error)
+        return session.text('commands.ncmget.messages.search-error')
+      }
+      if (!songs.length) return session.text('commands.ncmget.messages.no-results')
+
+      await session.send(session.text('commands.ncmcache.prewarm.messages.start', [songs.length]))
+      const counts = { downloaded: 0, cached: 0, failed: 0 }
+      // 逐首下载，避免占满下载并发名额影响正常点歌
+      for (const song of songs) {
+        counts[await prewarmSong(song)]++
+      }
+      return session.text('commands.ncmcache.prewarm.messages.done', [counts.downloaded, counts.cached, counts.failed])
+    })
+
+  // --- 用户选歌中间件 ---
+
+  ctx.middleware(async (session, next) => {
+    const sessionKey = getSessionKey(session)
+    const searchSession = searchSessions.get(sessionKey)
+    if (!searchSession) return next()
+
+    const input = session.stripped?.content?.trim() ?? session.content?.trim()
+    if (!input) return next()
+
+    // 翻页，保持会话并重置超时；关键词搜索按页重新请求，曲目列表直接切换
+    if (searchSession.page !== undefined) {
+      const command = input.toLowerCase()
+      const delta = NEXT_PAGE.has(command) ? 1 : PREV_PAGE.has(command) ? -1 : 0
+      if (delta) {
+        const { timeout, keyword, ...data } = searchSession
+        const pageSize = keyword !== undefined ? config.searchPageSize : config.trackPageSize
+        const pageCount = Math.ceil((searchSession.total ?? searchSession.results.length) / pageSize)
+        const page = searchSession.page + delta
+        if (page < 0 || page >= pageCount) {
+          await session.send(session.text('commands.ncmplaylist.messages.no-more-pages'))
+          return
+        }
+
+        if (keyword === undefined) {
+          setSearchSession(sessionKey, { ...data, page })
+          await sendTrackPage(session, { ...data, page })
+          return
+        }
+
+        try {
+          const result = await fetchSearchPage(searchSession.action, keyword, page, searchSession.provider)
+          if (!result.items.length) {
+            await session.send(session.text('commands.ncmplaylist.messages.no-more-pages'))
+            return
+          }
+          const next = { ...data, keyword, page, results: result.items, total: result.total }
+          setSearchSession(sessionKey, next)
+          await sendSearchPage(session, next)
+        } catch (error) {
+          logger.error('搜索翻页失败:', error)
+          await session.send(session.text('commands.ncmget.messages.search-error'))
+        }
+        return
+      }
+    }
+
+    if (input === '0') {
+      clearSearchSession(sessionKey)
+      await session.send(session.text('commands.ncmget.messages.search-cancelled'))
+      return
+    }
+
+    // 搜索结果按总排名编号，只接受当前页内的序号
+    const isSearch = searchSession.keyword !== undefined
+    const offset = isSearch ? (searchSession.page || 0) * config.searchPageSize : 0
+    const selected = !isSearch && searchSession.page !== undefined
+      ? parseSelection(input, searchSession.results.length)
+      : /^\d+$/.test(input) ? parseSelection(input, offset + searchSession.results.length) : undefined
+    const indices = selected?.filter(index => index >= offset).map(index => index - offset)
+    if (!indices?.length) return next()
+
+    clearSearchSession(sessionKey)
+
+    const listType = LIST_TYPES.find(type => type === searchSession.action)
+    if (listType) {
+      try {
+        const message = await openTrackList(session, listType, searchSession.results[indices[0]].id, searchSession)
+        if (message) await session.send(message)
+      } catch (error) {
+        logger.error(`获取${LIST_MESSAGES[listType].label}失败:`, error)
+        await session.send(session.text(LIST_MESSAGES[listType].error))
+      }
+      return
+    }
+
+    for (const index of indices) {
+      const song = searchSession.results[index]
+      if (searchSession.action === 'lyric') {
+        await handleLyricRequest(session, song)
+      } else if (searchSession.action === 'queue') {
+        await addToQueue(session, song)
+      } else {
+        await handleSongRequest(session, song, searchSession)
+      }
+    }
+  })
+
+  // --- 歌曲链接识别中间件 ---
+
+  ctx.middleware(async (session, next) => {
+    if (!config.autoParseLinks || session.argv?.command) return next()
+
+    const link = matchSongLink(session.content || '')
+    if (!link) return next()
+    if (!checkRateLimit(session)) return next()
+
+    try {
+      const song = await getSongByLink(link)
+      if (!song) return next()
+      await handleSongRequest(session, song)
+    } catch (error) {
+      logger.warn('解析歌曲链接失败:', error)
+      return next()
+    }
+  })
+
+  // --- 歌曲处理 ---
+
+  /**
+   * 命中指定音质的缓存时直接发送并返回发送结果；未命中返回 undefined。
+   * 缓存文件丢失时重置记录，记录本身保留以便后续走 upsert 更新。
+   */
+  async function sendFromCache(session: Session, id: string, quality: Quality, options: SongRequestOptions, duration?: number): Promise<boolean | undefined> {
+    const [cacheEntry] = await ctx.database.get('ncm_cache', { id, quality })
+    if (!cacheEntry?.cached || !cacheEntry.cachePath) return
+
+    // 旧版本可能把试听片段当作完整歌曲缓存，删除文件后按缓存失效处理
+    if (detectTrialClip({ size: cacheEntry.fileSize, br: cacheEntry.bitrate }, duration) !== undefined) {
+      logger.info('缓存疑似试听片段，已作废:', id)
+      await fs.unlink(cacheEntry.cachePath).catch(() => { })
+    }
+
+    try {
+      await fs.access(cacheEntry.cachePath)
+    } catch {
+      await ctx.database.set('ncm_cache', { id, quality }, {
+        cached: false, cachePath: '', fileSize: 0,
+      })
+      return
+    }
+    return sendCachedSong(session, cacheEntry, options)
+  }
+
+  /**
+   * 发送平台原生的音乐分享卡片，无需下载。
+   * OneBot 使用 music 消息段，支持链接预览的平台直接发送歌曲链接；其余平台返回 false。
+   */
+  async function sendMusicCard(session: Session, song: SearchResult): Promise<boolean> {
+    try {
+      const onebot = (session as any).onebot
+      if (onebot) {
+        const segments = [{ type: 'music', data: { type: '163', id: String(song.id) } }]
+        if (session.isDirect) {
+          await onebot.sendPrivateMsg(session.userId, segments)
+        } else {
+          await onebot.sendGroupMsg(session.channelId, segments)
+        }
+        return true
+      }
+
+      if (LINK_PREVIEW_PLATFORMS.has(session.platform)) {
+        await session.send(`${song.name} - ${song.artist}\nhttps://music.163.com/song?id=${song.id}`)
+        return true
+      }
+    } catch (error) {
+      logger.warn('发送音乐卡片失败:', error)
+    }
+    return false
+  }
+
+  /** 获取并发送歌曲，成功发送时记录点歌历史与统计并返回 true */
+  async function handleSongRequest(session: Session, song: any, options: SongRequestOptions = {}): Promise<boolean> {
+    song = { ...song, id: toSongKey(song.id) }
+    const source = await fetchAndSendSong(session, song, options)
+    if (!source) return false
+    await recordHistory(session, song)
+    await recordStats(session, song, source)
+    return true
+  }
+
+  /** 发送歌曲（ID带来源前缀）并返回发送来源，发送失败时返回 undefined */
+  async function fetchAndSendSong(session: Session, song: any, options: SongRequestOptions): Promise<SendSource | undefined> {
+    const quality = options.quality || config.quality
+    const key = String(song.id)
+    const resolved = providers.resolve(key)
+    if (!resolved) {
+      logger.warn('音乐来源未注册:', key)
+      await session.send(session.text('commands.ncmget.messages.song-unavailable'))
+      return
+    }
+    const { provider, id } = resolved
+
+    if (options.chorus || options.clip) {
+      const clip = await resolveClipRange(session, provider, id, song, options)
+      if (!clip) return
+      options = { ...options, clip }
+    }
+
+    // 音乐卡片无需下载，仅支持网易云歌曲；平台不支持时回退到配置的文件/语音格式
+    if ((options.sendFormat ?? config.sendFormat) === 'card') {
+      if (!options.compress && !options.effect && !options.clip && provider.name === DEFAULT_PROVIDER && await sendMusicCard(session, { ...song, id })) return 'card'
+      options = { ...options, sendFormat: options.compress ? 'audio' : config.cardFallback }
+    }
+
+    try {
+      const cached = await sendFromCache(session, key, quality, options, song.duration)
+      if (cached !== undefined) return cached ? 'cache' : undefined
+
+      const result = await provider.getSongUrlByQuality(id, quality)
+      if (!result?.urlInfo.url) {
+        await session.send(session.text('commands.ncmget.messages.song-unavailable'))
+        return
+      }
+
+      // 请求的音质不可用时已自动降级，降级后的音质可能已有缓存
+      const { urlInfo } = result
+      if (result.quality !== quality) {
+        const fallback = await sendFromCache(session, key, result.quality, options, song.duration)
+        if (fallback !== undefined) return fallback ? 'cache' : undefined
+      }
+
+      // 未登录 VIP 时接口只返回试听片段，按配置提示或拒绝
+      const trialLength = detectTrialClip(urlInfo, song.duration)
+      if (trialLength !== undefined) {
+        if (config.trialPolicy === 'refuse') {
+          await session.send(session.text('commands.ncmget.messages.trial-refused'))
+          return
+        }
+        await session.send(session.text('commands.ncmget.messages.trial-notice', [Math.round(trialLength / 1000)]))
+        // 试听片段与完整歌曲的时间轴不同，不再截取
+        options = { ...options, clip: undefined }
+      }
+
+      const savePath = getSavePath(provider, id, result, trialLength !== undefined)
+      if (!savePath) {
+        await session.send(session.text('commands.ncmget.messages.download-error'))
+        return
+      }
+
+      // 试听片段发送后即删除，每个请求单独下载
+      const { task, position } = trialLength === undefined
+        ? downloadShared(provider, { ...song, id }, key, result, savePath)
+        : scheduleDownload(() => downloadTrial(provider, song, key, result, savePath))
+      await session.send(position
+        ? session.text('commands.ncmget.messages.download-queued', [position])
+        : session.text('commands.ncmget.messages.downloading'))
+
+      let cacheData: MusicCache
+      try {
+        cacheData = await task
       } catch (error) {
         logger.error('获取歌曲失败:', error)
         await session.send(session.text('commands.ncmget.messages.download-error'))
+        return
+      }
+
+      try {
+        return await sendCachedSong(session, cacheData, options) ? 'download' : undefined
       } finally {
-        downloadLocks.delete(sanitizedId)
+        if (trialLength !== undefined) await fs.unlink(savePath).catch(() => { })
       }
     } catch (error) {
       logger.error('处理歌曲请求异常:', error)
       await session.send(session.text('commands.ncmget.messages.download-error'))
+      return
+    }
+  }
+
+  /**
+   * 确定要截取的时间范围并按歌曲时长校验，无法截取时发送提示并返回 undefined。
+   * 副歌范围来自网易云的副歌信息，不足 CHORUS_MIN_LENGTH 时向后延长。
+   */
+  async function resolveClipRange(session: Session, provider: MusicProvider, id: string, song: SearchResult, options: SongRequestOptions): Promise<TimeRange | undefined> {
+    const duration = song.duration || 0
+    let clip = options.clip
+    if (options.chorus) {
+      let chorus: TimeRange | null = null
+      try {
+        if (provider.name === DEFAULT_PROVIDER) chorus = await ncm.getChorus(id)
+      } catch (error) {
+        logger.warn('获取副歌信息失败:', error)
+      }
+      if (!chorus) {
+        await session.send(session.text('commands.ncmget.messages.chorus-unavailable'))
+        return
+      }
+      const end = Math.max(chorus.end, chorus.start + CHORUS_MIN_LENGTH)
+      clip = { start: chorus.start, end: duration ? Math.min(end, duration) : end }
+    }
+
+    if (clip && duration && clip.end > duration) {
+      await session.send(session.text('commands.ncmget.messages.clip-out-of-range', [ncm.formatDuration(duration)]))
+      return
+    }
+    return clip
+  }
+
+  /** 计算缓存文件路径（以实际返回的格式作为扩展名），ID 非法或路径越界时返回 undefined */
+  function getSavePath(provider: MusicProvider, id: string, result: QualityUrl, trial = false): string | undefined {
+    const sanitizedId = `${provider.name}_${id}`.replace(/[^a-zA-Z0-9_-]/g, '')
+    if (!id.replace(/[^a-zA-Z0-9-]/g, '')) {
+      logger.error('非法歌曲ID:', `${provider.name}:${id}`)
+      return
+    }
+
+    const { urlInfo } = result
+    const extension = /^[a-z0-9]+$/i.test(urlInfo.type || '') ? urlInfo.type.toLowerCase() : 'mp3'
+    // 试听片段使用独立的临时文件
+    const filename = `${sanitizedId}-${result.quality}${trial ? `-trial-${Date.now()}` : ''}`
+    const savePath = path.resolve(config.cachePath, `${filename}.${extension}`)
+    if (!savePath.startsWith(path.resolve(config.cachePath))) {
+      logger.error('路径安全检查失败:', savePath)
+      return
+    }
+    return savePath
+  }
+
+  /** 下载歌曲到缓存，同一文件的并发请求共用一个下载任务；加入已有任务时 position 为 0 */
+  function downloadShared(provider: MusicProvider, song: SearchResult, key: string, result: QualityUrl, savePath: string) {
+    const running = downloads.get(savePath)
+    if (running) return { task: running, position: 0 }
+
+    const scheduled = scheduleDownload(() => downloadToCache(provider, song, key, result, savePath))
+    downloads.set(savePath, scheduled.task)
+    scheduled.task.catch(() => { }).then(() => downloads.delete(savePath))
+    return scheduled
+  }
+
+  /** 预热缓存：按默认音质下载歌曲（ID带来源前缀），已有缓存或只有试听片段时跳过 */
+  async function prewarmSong(song: SearchResult): Promise<'cached' | 'downloaded' | 'failed'> {
+    const key = String(song.id)
+    const resolved = providers.resolve(key)
+    if (!resolved) return 'failed'
+    const { provider, id } = resolved
+
+    const isCached = async (quality: Quality) => {
+      const [cache] = await ctx.database.get('ncm_cache', { id: key, quality })
+      return !!cache?.cached
+    }
+
+    try {
+      if (await isCached(config.quality)) return 'cached'
+      const result = await provider.getSongUrlByQuality(id, config.quality)
+      if (!result?.urlInfo.url) return 'failed'
+      if (result.quality !== config.quality && await isCached(result.quality)) return 'cached'
+      if (detectTrialClip(result.urlInfo, song.duration) !== undefined) return 'failed'
+
+      const savePath = getSavePath(provider, id, result)
+      if (!savePath) return 'failed'
+      await downloadShared(provider, { ...song, id }, key, result, savePath).task
+      return 'downloaded'
+    } catch (error) {
+      logger.warn(`预热缓存失败: ${key}`, error)
+      return 'failed'
+    }
+  }
+
+  /** 下载歌曲、写入标签并保存缓存记录 */
+  async function downloadToCache(provider: MusicProvider, song: SearchResult, key: string, result: QualityUrl, savePath: string): Promise<MusicCache> {
+    const { urlInfo } = result
+    await cleanOldCache(urlInfo.size)
+    await provider.downloadSong(urlInfo.url, savePath, { size: urlInfo.size, md5: urlInfo.md5 })
+    const tagged = config.embedMetadata && !provider.preserveTags && await tagSong(savePath, song, provider)
+    const { size: fileSize } = await fs.stat(savePath)
+
+    const cacheData: MusicCache = {
+      id: key,
+      quality: result.quality,
+      name: song.name,
+      artist: song.artist,
+      url: urlInfo.url,
+      cached: true,
+      cachePath: savePath,
+      fileSize,
+      cacheTime: Date.now(),
+      bitrate: urlInfo.br,
+      tagged,
+    }
+
+    // upsert 自动处理「新增/更新」，彻底避免主键冲突和竞态问题
+    await ctx.database.upsert('ncm_cache', [cacheData])
+    return cacheData
+  }
+
+  /** 下载试听片段，不写入缓存 */
+  async function downloadTrial(provider: MusicProvider, song: SearchResult, key: string, result: QualityUrl, savePath: string): Promise<MusicCache> {
+    const { urlInfo } = result
+    await provider.downloadSong(urlInfo.url, savePath, { size: urlInfo.size, md5: urlInfo.md5 })
+    return {
+      id: key, quality: result.quality, name: song.name, artist: song.artist,
+      url: urlInfo.url, cached: false, cachePath: savePath, bitrate: urlInfo.br,
+    }
+  }
+
+  /**
+   * 在全局下载并发数内执行任务，超出上限时按先来后到排队。
+   * position 为排队位置，立即开始时为 0。
+   */
+  function scheduleDownload<T>(run: () => Promise<T>): { task: Promise<T>; position: number } {
+    let position = 0
+    let ready: Promise<void>
+    if (activeDownloads < config.maxConcurrentDownloads) {
+      activeDownloads++
+      ready = Promise.resolve()
+    } else {
+      ready = new Promise(resolve => downloadQueue.push(resolve))
+      position = downloadQueue.length
+    }
+    const task = ready.then(run).finally(() => {
+      // 直接把名额交给队首任务，没有排队任务时才释放
+      const next = downloadQueue.shift()
+      if (next) next()
+      else activeDownloads--
+    })
+    return { task, position }
+  }
+
+  // --- 点歌历史与收藏 ---
+
+  /** 记录点歌历史：同一首歌只保留最近一次，超出上限的旧记录被删除 */
+  async function recordHistory(session: Session, song: SearchResult) {
+    if (!session.userId) return
+    const userId = getUserKey(session)
+    try {
+      await ctx.database.remove('ncm_history', { userId, songId: String(song.id) })
+      await ctx.database.create('ncm_history', {
+        userId,
+        songId: String(song.id),
+        name: song.name,
+        artist: song.artist,
+        duration: song.duration || 0,
+        time: Date.now(),
+      })
+
+      const history = await getHistory(userId)
+      const expired = history.slice(config.historyLimit).map(item => item.id)
+      if (expired.length) await ctx.database.remove('ncm_history', { id: expired })
+    } catch (error) {
+      logger.warn('记录点歌历史失败:', error)
+    }
+  }
+
+  /** 按时间倒序返回用户的点歌历史 */
+  async function getHistory(userId: string): Promise<HistoryItem[]> {
+    const items = await ctx.database.get('ncm_history', { userId })
+    return items.sort((a, b) => b.time - a.time || b.id - a.id)
+  }
+
+  async function getFavorites(userId: string): Promise<FavoriteItem[]> {
+    const items = await ctx.database.get('ncm_favorite', { userId })
+    return items.sort((a, b) => a.id - b.id)
+  }
+
+  function formatSavedSong(item: HistoryItem | FavoriteItem, index: number): string {
+    return `${index + 1}. ${item.name} - ${item.artist} [${ncm.formatDuration(item.duration)}]`
+  }
+
+  /** 从历史或收藏重播：跳过搜索，默认音质未缓存时优先使用已缓存的最高音质 */
+  async function replaySong(session: Session, item: HistoryItem | FavoriteItem) {
+    const caches = await ctx.database.get('ncm_cache', { id: toSongKey(item.songId), cached: true })
+    const cachedQualities = caches.map(cache => cache.quality).filter(isQuality)
+    const quality = cachedQualities.includes(config.quality)
+      ? config.quality
+      : cachedQualities.sort((a, b) => QUALITIES.indexOf(b) - QUALITIES.indexOf(a))[0]
+
+    const song = { id: item.songId, name: item.name, artist: item.artist, duration: item.duration }
+    await handleSongRequest(session, song, { quality })
+  }
+
+  // --- 点歌统计 ---
+
+  async function recordStats(session: Session, song: SearchResult, source: SendSource) {
+    try {
+      await ctx.database.create('ncm_stats', {
+        userId: session.userId || '',
+        username: session.username || session.userId || '',
+        channel: getChannelKey(session),
+        platform: session.platform,
+        songId: String(song.id),
+        name: song.name,
+        artist: song.artist,
+        source,
+        time: Date.now(),
+      })
+    } catch (error) {
+      logger.warn('记录点歌统计失败:', error)
+    }
+  }
+
+  /** 删除超出保留天数的点歌统计 */
+  async function pruneStats() {
+    if (config.statsRetention <= 0) return
+    const before = Date.now() - config.statsRetention * 24 * 60 * 60 * 1000
+    await ctx.database.remove('ncm_stats', { time: { $lt: before } })
+  }
+
+  /** 按发送来源分组计数；命中率只统计需要音频文件的发送，音乐卡片不经过缓存 */
+  async function countSendSources(query: Query<StatsRecord>) {
+    const groups = await ctx.database.select('ncm_stats', query)
+      .groupBy('source', { count: row => $.count(row.id) })
+      .execute()
+    const count = (source: SendSource) => groups.find(group => group.source === source)?.count || 0
+    return { hits: count('cache'), downloads: count('download') }
+  }
+
+  /** 本频道的热门歌曲、歌手与点歌用户，在数据库中分组计数，只取回排行所需的数据 */
+  async function getRankings(query: Query<StatsRecord>): Promise<[string, RankEntry[]][]> {
+    const songs = await ctx.database.select('ncm_stats', query)
+      .groupBy(['songId', 'name', 'artist'], { count: row => $.count(row.id) })
+      .orderBy('count', 'desc')
+      .limit(STATS_TOP_COUNT)
+      .execute()
+
+    // 多位歌手以 / 分隔，按歌手字段分组计数后再拆分合并
+    const artistGroups = await ctx.database.select('ncm_stats', query)
+      .groupBy('artist', { count: row => $.count(row.id) })
+      .execute()
+    const artists = new Map<string, number>()
+    for (const group of artistGroups) {
+      for (const artist of group.artist.split('/').filter(Boolean)) {
+        artists.set(artist, (artists.get(artist) || 0) + group.count)
+      }
+    }
+
+    const users = await ctx.database.select('ncm_stats', query)
+      .groupBy(['platform', 'userId'], { count: row => $.count(row.id) })
+      .orderBy('count', 'desc')
+      .limit(STATS_TOP_COUNT)
+      .execute()
+    // 昵称取该用户最近一次点歌时的记录
+    const topUsers: RankEntry[] = []
+    for (const user of users) {
+      const [latest] = await ctx.database.get('ncm_stats', { platform: user.platform, userId: user.userId }, {
+        fields: ['username'],
+        sort: { time: 'desc' },
+        limit: 1,
+      })
+      topUsers.push({ label: latest?.username || user.userId, count: user.count })
+    }
+
+    return [
+      ['top-songs', songs.map(song => ({ label: `${song.name} - ${song.artist}`, count: song.count }))],
+      ['top-artists', [...artists].map(([label, count]) => ({ label, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, STATS_TOP_COUNT)],
+      ['top-users', topUsers],
+    ]
+  }
+
+  async function formatStats(session: Session, channel: string, since: number, period: string): Promise<string> {
+    const periodText = session.text(`commands.ncmstats.messages.period-${period}`)
+    const lines: string[] = []
+
+    const channelQuery: Query<StatsRecord> = { channel, time: { $gte: since } }
+    const channelTotal = await ctx.database.eval('ncm_stats', row => $.count(row.id), channelQuery)
+    if (!channelTotal) {
+      lines.push(session.text('commands.ncmstats.messages.empty', [periodText]))
+    } else {
+      lines.push(session.text('commands.ncmstats.messages.header', [periodText, channelTotal]))
+      for (const [key, entries] of await getRankings(channelQuery)) {
+        lines.push(session.text(`commands.ncmstats.messages.${key}`))
+        entries.forEach((entry, idx) => {
+          lines.push(`${idx + 1}. ${entry.label} (${session.text('commands.ncmstats.messages.count', [entry.count])})`)
+        })
+      }
+    }
+
+    const serverQuery: Query<StatsRecord> = { time: { $gte: since } }
+    const total = await ctx.database.eval('ncm_stats', row => $.count(row.id), serverQuery)
+    const songs = await ctx.database.eval('ncm_stats', row => $.count(row.songId), serverQuery)
+    const users = await ctx.database.eval('ncm_stats', row => $.count($.concat(row.platform, ':', row.userId)), serverQuery)
+    lines.push(session.text('commands.ncmstats.messages.server', [total, songs, users]))
+
+    const { hits, downloads } = await countSendSources(serverQuery)
+    if (hits + downloads) {
+      const rate = (hits / (hits + downloads) * 100).toFixed(1)
+      lines.push(session.text('commands.ncmstats.messages.cache-rate', [rate, hits, downloads]))
+    }
+
+    return lines.join('\n')
+  }
+
+  // --- 账号状态 ---
+
+  function formatAccountStatus(session: Session, status: AccountStatus): string {
+    const vipLabel = status.vipType === 11
+      ? session.text('commands.ncmaccount.messages.vip-black')
+      : status.vipType === 10
+        ? session.text('commands.ncmaccount.messages.vip-package')
+        : status.vipType
+          ? `VIP(${status.vipType})`
+          : session.text('commands.ncmaccount.messages.vip-none')
+    const expire = status.vipExpireTime
+      ? new Date(status.vipExpireTime).toISOString().slice(0, 10)
+      : '-'
+    const csrf = status.csrfValid === undefined
+      ? session.text('commands.ncmaccount.messages.csrf-missing')
+      : status.csrfValid
+        ? session.text('commands.ncmaccount.messages.csrf-valid')
+        : session.text('commands.ncmaccount.messages.csrf-invalid')
+
+    return [
+      session.text('commands.ncmaccount.messages.nickname', [status.nickname, status.userId]),
+      session.text('commands.ncmaccount.messages.vip', [vipLabel, expire]),
+      session.text('commands.ncmaccount.messages.csrf', [csrf]),
+    ].join('\n')
+  }
+
+  // --- 点歌队列 ---
+
+  async function getQueue(channel: string): Promise<QueueItem[]> {
+    const items = await ctx.database.get('ncm_queue', { channel })
+    return items.sort((a, b) => a.id - b.id)
+  }
+
+  async function addToQueue(session: Session, song: SearchResult) {
+    const channel = getChannelKey(session)
+    const queue = await getQueue(channel)
+    if (queue.length >= config.queueMaxLength) {
+      await session.send(session.text('commands.ncmqueue.add.messages.queue-full', [config.queueMaxLength]))
+      return
+    }
+
+    await ctx.database.create('ncm_queue', {
+      channel,
+      songId: toSongKey(song.id),
+      name: song.name,
+      artist: song.artist,
+      duration: song.duration || 0,
+      userId: session.userId || '',
+      addTime: Date.now(),
+    })
+    await session.send(session.text('commands.ncmqueue.add.messages.added', [song.name, song.artist, queue.length + 1]))
+  }
+
+  function stopAutoAdvance(channel: string) {
+    const timer = queueTimers.get(channel)
+    if (timer) {
+      clearTimeout(timer)
+      queueTimers.delete(channel)
+    }
+  }
+
+  /** 取出队首歌曲并发送，无法获取的歌曲会被跳过；开启自动连播时在歌曲时长结束后继续播放 */
+  async function playNextInQueue(session: Session) {
+    const channel = getChannelKey(session)
+    stopAutoAdvance(channel)
+    nowPlaying.delete(channel)
+
+    while (true) {
+      const [item] = await getQueue(channel)
+      if (!item) {
+        await session.send(session.text('commands.ncmqueue.messages.finished'))
+        return
+      }
+
+      await ctx.database.remove('ncm_queue', { id: item.id })
+      await session.send(session.text('commands.ncmqueue.list.messages.now-playing', [item.name, item.artist]))
+
+      const song: SearchResult = {
+        id: item.songId,
+        name: item.name,
+        artist: item.artist,
+        album: '',
+        duration: item.duration,
+        fee: 0,
+      }
+      if (!await handleSongRequest(session, song)) continue
+
+      nowPlaying.set(channel, item)
+      if (config.queueAutoAdvance && item.duration > 0) {
+        queueTimers.set(channel, setTimeout(() => {
+          queueTimers.delete(channel)
+          playNextInQueue(session).catch(error => logger.warn('自动连播失败:', error))
+        }, item.duration))
+      }
+      return
+    }
+  }
+
+  /** 写入标题、艺术家、专辑、封面等标签，失败时仅记录日志，不影响发送 */
+  async function tagSong(filePath: string, song: SearchResult, provider: MusicProvider): Promise<boolean> {
+    try {
+      const [detail] = await provider.getSongDetail([String(song.id)]).catch(() => [])
+      const meta: SearchResult = { ...song, ...detail }
+
+      const cover = meta.coverUrl
+        ? await ncm.downloadCover(meta.coverUrl).catch((error) => {
+          logger.warn('下载封面失败:', error)
+          return undefined
+        })
+        : undefined
+      const lyric = config.embedLyrics ? await provider.getLyric(String(song.id)).catch(() => null) : null
+
+      return await writeTags(filePath, {
+        title: meta.name,
+        artist: meta.artist,
+        album: meta.album || undefined,
+        trackNumber: meta.trackNumber,
+        year: meta.publishTime ? new Date(meta.publishTime).getFullYear() : undefined,
+        cover,
+        lyrics: lyric?.lrc,
+      })
+    } catch (error) {
+      logger.warn('写入歌曲标签失败:', error)
+      return false
     }
   }
 
-  async function sendCachedSong(session: Session, cache: MusicCache, sendFormatOverride?: Config['sendFormat'], compress?: boolean) {
+  // --- 歌词处理 ---
+
+  async function handleLyricRequest(session: Session, song: SearchResult) {
+    try {
+      const resolved = providers.resolve(toSongKey(song.id))
+      const lyric = resolved ? await resolved.provider.getLyric(resolved.id) : null
+      const original = lyric ? parseLrc(lyric.lrc) : []
+      if (!lyric || !original.length) {
+        await session.send(session.text('commands.ncmlyric.messages.no-lyric', [song.name]))
+        return
+      }
+
+      const extras = [
+        config.lyricTranslation ? parseLrc(lyric.tlyric) : [],
+        config.lyricRomanization ? parseLrc(lyric.romalrc) : [],
+      ]
+      const blocks = mergeLyrics(original, ...extras)
+      const header = session.text('commands.ncmlyric.messages.header', [song.name, song.artist])
+
+      const chunks: string[] = []
+      for (let i = 0; i < blocks.length; i += config.lyricLinesPerMessage) {
+        chunks.push(blocks.slice(i, i + config.lyricLinesPerMessage).join('\n'))
+      }
+      chunks[0] = `${header}\n${chunks[0]}`
+
+      if (chunks.length === 1) {
+        await session.send(chunks[0])
+      } else if (config.lyricMergeForward) {
+        await session.send(h('message', { forward: true }, chunks.map(chunk => h('message', chunk))))
+      } else {
+        for (const chunk of chunks) await session.send(chunk)
+      }
+    } catch (error) {
+      logger.error('获取歌词失败:', error)
+      await session.send(session.text('commands.ncmlyric.messages.lyric-error'))
+    }
+  }
+
+  /** 记录一次缓存访问，用于 LRU 淘汰与命中统计 */
+  async function touchCache(cache: MusicCache) {
+    try {
+      await ctx.database.set('ncm_cache', { id: cache.id, quality: cache.quality }, row => ({
+        lastAccess: Date.now(),
+        hits: $.add($.ifNull(row.hits, 0), 1),
+      }))
+    } catch (error) {
+      logger.warn('更新缓存访问记录失败:', error)
+    }
+  }
+
+  async function sendCachedSong(session: Session, cache: MusicCache, options: SongRequestOptions = {}): Promise<boolean> {
+    const tempPaths: string[] = []
     try {
       if (!cache.cachePath) throw new Error('缓存路径不存在')
 
-      const filename = `${sanitizeFilename(`${cache.artist} - ${cache.name}`)}.mp3`
-      let filePath = cache.cachePath
-      let compressedPath: string | undefined
+      const extension = path.extname(cache.cachePath) || '.mp3'
+      let title = sanitizeFilename(`${cache.artist} - ${cache.name}`)
+      let target = cache
+      const { compress, effect, clip } = options
 
-      if (compress && ctx.ffmpeg) {
+      if ((compress || effect || clip) && ctx.ffmpeg) {
+        const range = clip && `${ncm.formatDuration(clip.start)}-${ncm.formatDuration(clip.end)}`
         try {
-          await session.send(session.text('commands.ncmget.messages.compressing'))
-          compressedPath = path.resolve(
-            path.dirname(cache.cachePath),
-            `${path.basename(cache.cachePath, '.mp3')}_compressed.mp3`,
-          )
-          await compressAudio(cache.cachePath, compressedPath)
-          filePath = compressedPath
+          target = await getProcessedAudio(cache, options, () => session.send(range
+            ? session.text('commands.ncmget.messages.clipping', [range])
+            : effect
+              ? session.text('commands.ncmget.messages.applying-effect', [effect])
+              : session.text('commands.ncmget.messages.compressing')).then(() => { }))
+          if (!target.cached) tempPaths.push(target.cachePath!)
+          const suffix = [effect, range].filter(Boolean).map(tag => ` [${tag}]`).join('')
+          title = sanitizeFilename(`${cache.artist} - ${cache.name}${suffix}`)
         } catch (error) {
-          logger.warn('音频压缩失败:', error)
-          await session.send(session.text('commands.ncmget.messages.compress-error'))
-          compressedPath = undefined
+          logger.warn('音频处理失败:', error)
+          // 截取失败时不发送整首歌曲
+          if (clip) {
+            await session.send(session.text('commands.ncmget.messages.clip-error'))
+            return false
+          }
+          await session.send(session.text(effect ? 'commands.ncmget.messages.effect-error' : 'commands.ncmget.messages.compress-error'))
+          target = cache
         }
       }
 
+      const format = options.sendFormat ?? (compress ? 'audio' : config.sendFormat)
+
+      // 语音消息转为平台原生格式，失败时发送未转码的音频（相当于 none），仍以语音形式发送
+      const codec = format === 'audio' && ctx.ffmpeg ? getVoiceCodec(session.platform) : 'none'
+      if (codec !== 'none') {
+        try {
+          target = await getVoiceAudio(target, codec)
+          if (!target.cached) tempPaths.push(target.cachePath!)
+        } catch (error) {
+          const reason = codec === 'amr' && config.voiceCodecs[session.platform] === 'silk'
+            ? '（未安装 silk 服务，改用的 AMR 编码需要 ffmpeg 启用 libopencore_amrnb）'
+            : ''
+          logger.warn(`语音编码 ${codec} 失败${reason}，改为发送未转码的音频:`, error)
+          await session.send(session.text('commands.ncmget.messages.voice-error'))
+        }
+      }
+
+      const filePath = target.cachePath!
+      const filename = `${title}${target === cache ? extension : path.extname(filePath)}`
       const fileUrl = pathToFileURL(filePath).href
       // OneBot 适配器中 file:// 可能不可达，使用 base64 直传
       const hasOneBot = !!(session as any).onebot
@@ -462,22 +2361,23 @@ export function apply(ctx: Context, config: Config) {
         ? `base64://${(await fs.readFile(filePath)).toString('base64')}`
         : fileUrl
 
-      const format = sendFormatOverride ?? (compress ? 'audio' : config.sendFormat)
-
-      try {
-        if (format === 'audio') {
-          await session.send(h.audio(src, { title: filename }))
-        } else {
-          await session.send(h.file(src, { title: filename }))
-        }
-      } finally {
-        if (compressedPath) {
-          fs.unlink(compressedPath).catch(() => { })
-        }
+      if (format === 'audio') {
+        await session.send(h.audio(src, { title: filename }))
+      } else {
+        await session.send(h.file(src, { title: filename }))
       }
+      // 派生音频的发送同时计入源音频，避免常用歌曲的原始缓存被 LRU 优先淘汰
+      if (target.cached) await touchCache(target)
+      if (target !== cache && cache.cached) await touchCache(cache)
+      return true
     } catch (error) {
       logger.error('发送歌曲失败:', error)
       await session.send(session.text('commands.ncmget.messages.send-error'))
+      return false
+    } finally {
+      for (const tempPath of tempPaths) {
+        fs.unlink(tempPath).catch(() => { })
+      }
     }
   }
 }
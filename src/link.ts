@@ -0,0 +1,43 @@
+export type ResourceLink =
+  | { type: 'id'; id: string }
+  | { type: 'short'; url: string }
+
+export type ResourceType = 'song' | 'playlist' | 'album' | 'artist'
+
+// 如 music.163.com/song?id=、music.163.com/#/song?id=、y.music.163.com/m/song?id=、y.music.163.com/m/song/123
+const RESOURCE_URL: Record<ResourceType, RegExp> = {
+  song: /music\.163\.com\/(?:#\/)?(?:m\/)?song(?:\?[^\s"'<>]*?\bid=|\/)(\d+)/,
+  playlist: /music\.163\.com\/(?:#\/)?(?:m\/)?playlist(?:\?[^\s"'<>]*?\bid=|\/)(\d+)/,
+  album: /music\.163\.com\/(?:#\/)?(?:m\/)?album(?:\?[^\s"'<>]*?\bid=|\/)(\d+)/,
+  artist: /music\.163\.com\/(?:#\/)?(?:m\/)?artist(?:\?[^\s"'<>]*?\bid=|\/)(\d+)/,
+}
+// 移动端分享的短链接
+const SHORT_URL = /https?:\/\/163cn\.(?:tv|link)\/[A-Za-z0-9]+/
+
+/** 从任意文本中提取指定类型的网易云链接；卡片消息中的 JSON 转义斜杠会先被还原 */
+export function matchResourceLink(text: string, type: ResourceType): ResourceLink | undefined {
+  if (!text) return
+  const content = text.replace(/\\\//g, '/')
+
+  const resource = RESOURCE_URL[type].exec(content)
+  if (resource) return { type: 'id', id: resource[1] }
+
+  const short = SHORT_URL.exec(content)
+  if (short) return { type: 'short', url: short[0] }
+}
+
+export function matchSongLink(text: string): ResourceLink | undefined {
+  return matchResourceLink(text, 'song')
+}
+
+/** 解析指令参数中的ID：纯数字（不少于5位，避免与「1979」这类歌名冲突）或对应类型的链接 */
+export function parseResourceId(keyword: string, type: ResourceType): ResourceLink | undefined {
+  const trimmed = keyword.trim()
+  if (/^\d{5,}$/.test(trimmed)) return { type: 'id', id: trimmed }
+  if (/\s/.test(trimmed)) return
+  return matchResourceLink(trimmed, type)
+}
+
+export function parseSongId(keyword: string): ResourceLink | undefined {
+  return parseResourceId(keyword, 'song')
+}
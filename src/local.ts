@@ -0,0 +1,148 @@
+import { Context } from 'koishi'
+import * as crypto from 'crypto'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { pathToFileURL, fileURLToPath } from 'url'
+import { SearchResult, SearchPage, QualityUrl, DownloadCheck, LyricResult, Quality } from './service'
+import { MusicProvider } from './provider'
+
+interface LocalTrack extends SearchResult {
+  filePath: string
+  size: number
+}
+
+const AUDIO_EXTENSIONS = new Set(['.mp3', '.flac', '.m4a', '.ogg', '.wav'])
+const LOSSLESS_EXTENSIONS = new Set(['.flac', '.wav'])
+
+/** 索引的有效期（ms），过期后下次访问时重新扫描目录 */
+const INDEX_TTL = 5 * 60 * 1000
+
+/**
+ * 本地文件夹音乐来源：递归索引目录中的音频文件，
+ * 按「艺术家 - 歌名.扩展名」解析文件名，同名 .lrc 文件作为歌词。
+ */
+export class LocalProvider implements MusicProvider {
+  readonly name = 'local'
+  readonly preserveTags = true
+  private tracks = new Map<string, LocalTrack>()
+  private indexedAt = 0
+  private indexing: Promise<void> | undefined
+
+  constructor(private ctx: Context, private root: string) { }
+
+  private async ensureIndex() {
+    if (Date.now() - this.indexedAt < INDEX_TTL) return
+    this.indexing ||= this.buildIndex().finally(() => this.indexing = undefined)
+    await this.indexing
+  }
+
+  private async buildIndex() {
+    const root = path.resolve(this.root)
+    const tracks = new Map<string, LocalTrack>()
+    const walk = async (dir: string) => {
+      const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => [])
+      for (const entry of entries) {
+        const filePath = path.join(dir, entry.name)
+        if (entry.isDirectory()) {
+          await walk(filePath)
+        } else if (entry.isFile() && AUDIO_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+          const track = await this.createTrack(root, filePath)
+          tracks.set(track.id, track)
+        }
+      }
+    }
+    await walk(root)
+    this.tracks = tracks
+    this.indexedAt = Date.now()
+    this.ctx.logger('ncm').debug(`本地音乐索引完成，共 ${tracks.size} 首`)
+  }
+
+  private async createTrack(root: string, filePath: string): Promise<LocalTrack> {
+    const relative = path.relative(root, filePath)
+    const basename = path.basename(filePath, path.extname(filePath))
+    const separator = basename.indexOf(' - ')
+    const { size } = await fs.stat(filePath)
+    return {
+      // 以相对路径的哈希作为ID，目录移动后缓存自然失效
+      id: crypto.createHash('md5').update(relative).digest('hex').slice(0, 16),
+      name: separator === -1 ? basename : basename.slice(separator + 3).trim(),
+      artist: separator === -1 ? '未知艺术家' : basename.slice(0, separator).trim(),
+      album: path.basename(path.dirname(relative)) === '.' ? '未知专辑' : path.basename(path.dirname(relative)),
+      duration: 0,
+      fee: 0,
+      filePath,
+      size,
+    }
+  }
+
+  private toResult({ filePath, size, ...song }: LocalTrack): SearchResult {
+    return song
+  }
+
+  async searchMusic(keyword: string, limit: number = 30, offset: number = 0): Promise<SearchPage<SearchResult>> {
+    await this.ensureIndex()
+    const words = keyword.toLowerCase().split(/\s+/).filter(Boolean)
+    const matched = [...this.tracks.values()]
+      .filter(track => {
+        const text = `${track.artist} ${track.name} ${track.album}`.toLowerCase()
+        return words.every(word => text.includes(word))
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+    return {
+      items: matched.slice(offset, offset + limit).map(track => this.toResult(track)),
+      total: matched.length,
+    }
+  }
+
+  async getSongDetail(ids: string[]): Promise<SearchResult[]> {
+    await this.ensureIndex()
+    return ids
+      .map(id => this.tracks.get(id))
+      .filter((track): track is LocalTrack => !!track)
+      .map(track => this.toResult(track))
+  }
+
+  // 本地文件只有一种音质，按格式归档到对应档位
+  async getSongUrlByQuality(id: string, _quality: Quality): Promise<QualityUrl | null> {
+    await this.ensureIndex()
+    const track = this.tracks.get(id)
+    if (!track) return null
+    const extension = path.extname(track.filePath).toLowerCase()
+    return {
+      urlInfo: {
+        id,
+        url: pathToFileURL(track.filePath).href,
+        br: 0,
+        size: track.size,
+        md5: '',
+        type: extension.slice(1),
+      },
+      quality: LOSSLESS_EXTENSIONS.has(extension) ? 'lossless' : 'exhigh',
+    }
+  }
+
+  async downloadSong(url: string, savePath: string, check: DownloadCheck = {}): Promise<void> {
+    const tempPath = `${savePath}.part`
+    await fs.mkdir(path.dirname(savePath), { recursive: true })
+    try {
+      await fs.copyFile(fileURLToPath(url), tempPath)
+      const { size } = await fs.stat(tempPath)
+      if (check.size && size !== check.size) {
+        throw new Error(`文件大小不匹配: 期望 ${check.size}，实际 ${size}`)
+      }
+      await fs.rename(tempPath, savePath)
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => { })
+      throw error
+    }
+  }
+
+  async getLyric(id: string): Promise<LyricResult | null> {
+    await this.ensureIndex()
+    const track = this.tracks.get(id)
+    if (!track) return null
+    const lrcPath = track.filePath.slice(0, -path.extname(track.filePath).length) + '.lrc'
+    const lrc = await fs.readFile(lrcPath, 'utf8').catch(() => '')
+    return lrc ? { lrc, tlyric: '', romalrc: '' } : null
+  }
+}
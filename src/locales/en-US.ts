@@ -4,19 +4,176 @@ export default {
   'commands.ncmget.messages.no-results': 'No songs found',
   'commands.ncmget.messages.search-prompt': 'Found multiple songs, please reply with the number (reply 0 to exit):',
   'commands.ncmget.messages.search-results': 'Found multiple songs, please reply with the number (reply 0 to exit):\n{0}',
+  'commands.ncmget.messages.search-page': 'Page {0}/{1} ({2} results), reply n/p to turn pages',
   'commands.ncmget.messages.search-cancelled': 'Search cancelled',
   'commands.ncmget.messages.search-error': 'Search failed, please try again later',
   'commands.ncmget.messages.song-unavailable': 'This song is temporarily unavailable (might require VIP)',
+  'commands.ncmget.messages.trial-notice': 'Only a {0}-second trial clip of this song is available; the full song requires a valid VIP cookie',
+  'commands.ncmget.messages.trial-refused': 'Only a trial clip of this song is available, sending cancelled (the full song requires a valid VIP cookie)',
   'commands.ncmget.messages.downloading': 'Downloading song, please wait...',
+  'commands.ncmget.messages.download-queued': 'Too many downloads in progress, queued at position {0}, please wait...',
   'commands.ncmget.messages.download-error': 'Download failed, please try again later',
   'commands.ncmget.messages.send-error': 'Send failed, please try again later',
   'commands.ncmget.messages.compressing': 'Compressing audio...',
   'commands.ncmget.messages.compress-error': 'Compression failed, sending original file',
-  'commands.ncmget.messages.ffmpeg-missing': 'Compression requires the ffmpeg service plugin',
+  'commands.ncmget.messages.ffmpeg-missing': 'Compression, effects and clipping require the ffmpeg service plugin',
+  'commands.ncmget.messages.invalid-quality': 'Invalid quality, choose from: standard, higher, exhigh, lossless, hires',
+  'commands.ncmget.messages.invalid-effect': 'Unknown effect "{0}", choose from: {1}',
+  'commands.ncmget.messages.applying-effect': 'Applying effect {0}...',
+  'commands.ncmget.messages.effect-error': 'Failed to apply the effect, sending original file',
+  'commands.ncmget.messages.invalid-clip': 'Invalid clip range, use a format like 1:00-1:30 or 60-90',
+  'commands.ncmget.messages.clip-out-of-range': 'The clip range exceeds the song duration ({0})',
+  'commands.ncmget.messages.chorus-unavailable': 'No chorus information is available for this song',
+  'commands.ncmget.messages.clipping': 'Clipping {0}...',
+  'commands.ncmget.messages.clip-error': 'Failed to clip the song, please try again later',
+  'commands.ncmget.messages.voice-error': 'Failed to encode the voice message, sending the original audio instead',
+  'commands.ncmget.messages.invalid-provider': 'Unknown music provider, choose from: {0}',
+  'commands.ncmget.messages.no-artist': 'No artists found',
+  'commands.ncmget.messages.no-playlist': 'No playlists found',
+  'commands.ncmget.messages.artist-error': 'Failed to get artist, please try again later',
+
+  'commands.ncmlyric.description': 'Get Netease Cloud Music lyrics',
+  'commands.ncmlyric.messages.no-keyword': 'Please enter the song name or ID',
+  'commands.ncmlyric.messages.no-lyric': 'No lyrics for "{0}" (might be instrumental)',
+  'commands.ncmlyric.messages.header': '"{0}" - {1}',
+  'commands.ncmlyric.messages.lyric-error': 'Failed to get lyrics, please try again later',
+
+  'commands.ncmplaylist.description': 'Get a Netease Cloud Music playlist',
+  'commands.ncmplaylist.messages.no-target': 'Please enter the playlist ID or link',
+  'commands.ncmplaylist.messages.invalid-target': 'Unrecognized playlist ID or link',
+  'commands.ncmplaylist.messages.empty': 'No playable tracks in this list',
+  'commands.ncmplaylist.messages.playlist-error': 'Failed to get the playlist, please check that it exists and is public',
+  'commands.ncmplaylist.messages.track-page': '"{0}" page {1}/{2} ({3} tracks)',
+  'commands.ncmplaylist.messages.track-hint': 'Reply with numbers to pick (e.g. 1 3 5 or 2-4), n/p to turn pages, 0 to exit',
+  'commands.ncmplaylist.messages.no-more-pages': 'No more pages',
+
+  'commands.ncmalbum.description': 'Get a Netease Cloud Music album',
+  'commands.ncmalbum.messages.no-keyword': 'Please enter the album name, ID or link',
+  'commands.ncmalbum.messages.no-results': 'No albums found',
+  'commands.ncmalbum.messages.track-count': '{0} tracks',
+  'commands.ncmalbum.messages.album-error': 'Failed to get the album, please try again later',
+
+  'commands.ncmqueue.description': 'Play queue',
+  'commands.ncmqueue.messages.empty': 'The queue is empty',
+  'commands.ncmqueue.messages.finished': 'The queue has finished playing',
+  'commands.ncmqueue.add.description': 'Add a song to the queue',
+  'commands.ncmqueue.add.messages.added': 'Added "{0}" - {1} at position {2}',
+  'commands.ncmqueue.add.messages.queue-full': 'The queue is full (max {0} songs)',
+  'commands.ncmqueue.list.description': 'Show the queue',
+  'commands.ncmqueue.list.messages.header': '{0} songs in the queue:',
+  'commands.ncmqueue.list.messages.now-playing': 'Now playing: "{0}" - {1}',
+  'commands.ncmqueue.next.description': 'Play the next song in the queue',
+  'commands.ncmqueue.skip.description': 'Skip the current or next song',
+  'commands.ncmqueue.skip.messages.skipped': 'Skipped "{0}" - {1}',
+  'commands.ncmqueue.clear.description': 'Clear the queue',
+  'commands.ncmqueue.clear.messages.cleared': 'Queue cleared',
+
+  'commands.ncmhistory.description': 'Show request history',
+  'commands.ncmhistory.messages.empty': 'No request history yet',
+  'commands.ncmhistory.messages.header': 'Your last {0} songs:',
+  'commands.ncmhistory.messages.invalid-index': 'Invalid index, use ncmhistory to view your history',
+  'commands.ncmhistory.play.description': 'Replay a song from history',
+
+  'commands.ncmfav.description': 'Favorite songs',
+  'commands.ncmfav.messages.empty': 'No favorites yet',
+  'commands.ncmfav.messages.invalid-index': 'Invalid index, use ncmfav list to view your favorites',
+  'commands.ncmfav.add.description': 'Add a song to favorites (ID or link, defaults to your last song)',
+  'commands.ncmfav.add.messages.added': 'Added "{0}" - {1} to favorites at #{2}',
+  'commands.ncmfav.add.messages.exists': '"{0}" is already in your favorites',
+  'commands.ncmfav.add.messages.full': 'Favorites are full (max {0} songs)',
+  'commands.ncmfav.add.messages.no-song': 'Please enter a song ID or link, or request a song first',
+  'commands.ncmfav.remove.description': 'Remove a song from favorites',
+  'commands.ncmfav.remove.messages.removed': 'Removed "{0}" - {1} from favorites',
+  'commands.ncmfav.list.description': 'Show favorites',
+  'commands.ncmfav.list.messages.header': '{0} favorite songs:',
+  'commands.ncmfav.play.description': 'Play a song from favorites',
+
+  'commands.ncmstats.description': 'Show leaderboards and usage statistics',
+  'commands.ncmstats.messages.period-day': 'Last 24 hours',
+  'commands.ncmstats.messages.period-week': 'Last 7 days',
+  'commands.ncmstats.messages.period-month': 'Last 30 days',
+  'commands.ncmstats.messages.header': '{0}: {1} requests in this channel',
+  'commands.ncmstats.messages.empty': '{0}: no requests in this channel',
+  'commands.ncmstats.messages.top-songs': 'Top songs:',
+  'commands.ncmstats.messages.top-artists': 'Top artists:',
+  'commands.ncmstats.messages.top-users': 'Top requesters:',
+  'commands.ncmstats.messages.count': '{0} times',
+  'commands.ncmstats.messages.server': 'Server-wide: {0} requests, {1} songs, {2} users',
+  'commands.ncmstats.messages.cache-rate': 'Cache hit rate: {0}% ({1} hits / {2} downloads)',
+  'commands.ncmstats.messages.invalid-period': 'Invalid period, choose from: day, week, month',
+  'commands.ncmstats.messages.stats-error': 'Failed to get statistics, please try again later',
+
+  'commands.ncmlogin.description': 'Log in to Netease Cloud Music by QR code',
+  'commands.ncmlogin.messages.pending': 'A QR login is already in progress, please finish it or wait for it to expire',
+  'commands.ncmlogin.messages.scan-prompt': 'Scan the QR code with the Netease Cloud Music app to log in (valid for 3 minutes)',
+  'commands.ncmlogin.messages.scanned': '{0} scanned the code, please confirm the login on your phone',
+  'commands.ncmlogin.messages.success': 'Logged in, cookies saved',
+  'commands.ncmlogin.messages.expired': 'The QR code has expired, please run the login again',
+  'commands.ncmlogin.messages.login-error': 'QR login failed, please try again later',
+
+  'commands.ncmaccount.description': 'Show the Netease Cloud Music account and cookie status',
+  'commands.ncmaccount.messages.no-cookie': 'No login cookie configured, set the cookie option or use ncmlogin',
+  'commands.ncmaccount.messages.not-logged-in': 'The cookie is not logged in or has expired, please use ncmlogin again',
+  'commands.ncmaccount.messages.account-error': 'Failed to get account info, please try again later',
+  'commands.ncmaccount.messages.nickname': 'Account: {0} ({1})',
+  'commands.ncmaccount.messages.vip': 'VIP: {0}, expires: {1}',
+  'commands.ncmaccount.messages.csrf': 'CSRF: {0}',
+  'commands.ncmaccount.messages.vip-none': 'None',
+  'commands.ncmaccount.messages.vip-package': 'Music package',
+  'commands.ncmaccount.messages.vip-black': 'Black vinyl VIP',
+  'commands.ncmaccount.messages.csrf-valid': 'valid',
+  'commands.ncmaccount.messages.csrf-invalid': 'invalid',
+  'commands.ncmaccount.messages.csrf-missing': 'not set',
+  'commands.ncmaccount.messages.cookie-expired': 'The NetEase Cloud Music cookie has expired, so VIP songs are unavailable. Please log in again with ncmlogin',
+  'commands.ncmcache.description': 'Manage the song cache',
+  'commands.ncmcache.messages.empty': 'No songs are cached',
+  'commands.ncmcache.stats.description': 'Show cache usage and hit rate',
+  'commands.ncmcache.stats.messages.stats': '{0} songs cached, using {1} / {2}\nSent {4} times, {3} from cache, hit rate {5}%',
+  'commands.ncmcache.list.description': 'List cached songs (most recently used first)',
+  'commands.ncmcache.list.messages.header': '{0} songs cached (page {1}/{2}):',
+  'commands.ncmcache.list.messages.item': '{0}. {1} - {2} ({3}, {4}, {5}, sent {6} times)',
+  'commands.ncmcache.list.messages.invalid-page': 'Invalid page, there are {0} pages',
+  'commands.ncmcache.remove.description': 'Remove the cache of a song (all qualities)',
+  'commands.ncmcache.remove.messages.no-id': 'Please enter a song ID',
+  'commands.ncmcache.remove.messages.not-found': 'Song {0} is not cached',
+  'commands.ncmcache.remove.messages.removed': 'Removed the cache of "{0}" - {1}, freed {2}',
+  'commands.ncmcache.clear.description': 'Clear the whole cache',
+  'commands.ncmcache.clear.messages.cleared': 'Removed the cache of {0} songs, freed {1}',
+  'commands.ncmcache.scan.description': 'Reconcile the cache directory with the database',
+  'commands.ncmcache.scan.messages.done': 'Cache scan finished: adopted {0} files, deleted {1} unknown files and {2} temp files, reset {3} stale records, corrected {4} file sizes',
+  'commands.ncmcache.scan.messages.scan-error': 'Failed to scan the cache, please check the logs',
+  'commands.ncmcache.prewarm.description': 'Cache songs from search results or a playlist in advance',
+  'commands.ncmcache.prewarm.messages.no-target': 'Please enter a keyword or a playlist link',
+  'commands.ncmcache.prewarm.messages.start': 'Prewarming {0} songs, please wait...',
+  'commands.ncmcache.prewarm.messages.done': 'Prewarm finished: {0} added, {1} already cached, {2} failed',
 
   _config: {
     cookie: 'Netease Cloud Music Cookie',
-    bitrate: 'Audio bitrate (bps)',
+    baseUrl: 'Netease Cloud Music API base URL (e.g. a self-hosted compatible gateway, a reverse proxy or a mock server for tests)',
+    proxyAgent: 'Proxy server address, supports http / https / socks (e.g. socks5://127.0.0.1:1080)',
+    userAgent: 'User-Agent used for web API (weapi) requests',
+    realIpMode: {
+      _description: 'Spoofed source IP (X-Real-IP), lifts some region locks when deployed overseas',
+      fixed: 'Fixed IP',
+      random: 'Random mainland China IP per request',
+      off: 'Do not send',
+    },
+    realIp: 'IP used in fixed mode',
+    provider: 'Default music provider (ncm, local or one registered by another plugin)',
+    localMusicPath: 'Local music folder, enables the local provider when set',
+    quality: {
+      _description: 'Default quality, falls back to a lower tier when unavailable',
+      standard: 'Standard (128k)',
+      higher: 'Higher (192k)',
+      exhigh: 'Extreme (320k)',
+      lossless: 'Lossless (FLAC)',
+      hires: 'Hi-Res',
+    },
+    trialPolicy: {
+      _description: 'What to do when only a trial clip is available (e.g. without VIP); trial clips are never cached',
+      notice: 'Send with a notice',
+      refuse: 'Refuse to send',
+    },
     searchTimeout: 'Search timeout (seconds)',
     searchPageSize: 'Search results count',
     mergeSearchResults: 'Merge search results',
@@ -24,11 +181,37 @@ export default {
       _description: 'Send format',
       file: 'File',
       audio: 'Audio',
+      card: 'Music card',
+    },
+    cardFallback: {
+      _description: 'Fallback format when music cards are unsupported',
+      file: 'File',
+      audio: 'Audio',
     },
     rateLimitEnabled: 'Enable rate limit',
     rateLimitInterval: 'Call interval (seconds)',
     rateLimitGlobal: 'Global rate limit',
     cacheMaxSize: 'Max cache size (MB)',
+    maxConcurrentDownloads: 'Max concurrent downloads, extra requests are queued',
     cachePath: 'Cache path',
+    effectPresets: 'Custom effect presets (name → ffmpeg audio filter), overriding built-in presets with the same name',
+    voiceCodecs: 'Voice encoding per platform (platform → opus/silk/amr/none), other platforms receive the original file',
+    voiceMaxDuration: 'Maximum voice message duration (seconds, 0 for unlimited), longer audio is truncated',
+    voiceMaxSize: 'Maximum voice message size (MB, 0 for unlimited), Opus lowers its bitrate to fit',
+    lyricTranslation: 'Include translated lyrics',
+    lyricRomanization: 'Include romanized lyrics',
+    lyricLinesPerMessage: 'Lyric lines per message',
+    lyricMergeForward: 'Send long lyrics as a merged forward',
+    autoParseLinks: 'Detect song links in chat messages',
+    trackPageSize: 'Tracks per page for playlists and albums',
+    queueMaxLength: 'Max queue length per channel',
+    queueAutoAdvance: 'Auto-advance the queue after each song ends',
+    accountCheckInterval: 'Cookie health check interval (minutes, 0 to disable)',
+    accountNotifyChannel: 'Channel to notify when the cookie expires (platform:channelId)',
+    embedMetadata: 'Write song tags and cover art',
+    embedLyrics: 'Include lyrics in tags',
+    historyLimit: 'Request history entries kept per user',
+    favoriteMaxLength: 'Max favorites per user',
+    statsRetention: 'Days to keep request statistics (0 to keep forever), at least 30 recommended for monthly charts',
   },
 }
@@ -4,19 +4,176 @@ export default {
   'commands.ncmget.messages.no-results': '未找到相关歌曲',
   'commands.ncmget.messages.search-prompt': '找到多首歌曲，请回复数字选择（回复0退出）：',
   'commands.ncmget.messages.search-results': '找到多首歌曲，请回复数字选择（回复0退出）：\n{0}',
+  'commands.ncmget.messages.search-page': '第 {0}/{1} 页（共 {2} 条结果），回复 n/p 翻页',
   'commands.ncmget.messages.search-cancelled': '已取消搜索',
   'commands.ncmget.messages.search-error': '搜索失败，请稍后重试',
   'commands.ncmget.messages.song-unavailable': '该歌曲暂时无法获取（可能需要VIP权限）',
+  'commands.ncmget.messages.trial-notice': '当前只能获取该歌曲约 {0} 秒的试听片段，完整歌曲需要有效的 VIP Cookie',
+  'commands.ncmget.messages.trial-refused': '该歌曲只能获取试听片段，已取消发送（完整歌曲需要有效的 VIP Cookie）',
   'commands.ncmget.messages.downloading': '正在下载歌曲，请稍候...',
+  'commands.ncmget.messages.download-queued': '当前下载任务较多，已加入队列（第 {0} 位），请稍候...',
   'commands.ncmget.messages.download-error': '下载失败，请稍后重试',
   'commands.ncmget.messages.send-error': '发送失败，请稍后重试',
   'commands.ncmget.messages.compressing': '正在压缩音频...',
   'commands.ncmget.messages.compress-error': '音频压缩失败，将发送原文件',
-  'commands.ncmget.messages.ffmpeg-missing': '压缩功能需要安装 ffmpeg 服务插件',
+  'commands.ncmget.messages.ffmpeg-missing': '压缩、音效与片段截取需要安装 ffmpeg 服务插件',
+  'commands.ncmget.messages.invalid-quality': '无效的音质，可选：standard、higher、exhigh、lossless、hires',
+  'commands.ncmget.messages.invalid-effect': '未知的音效「{0}」，可选：{1}',
+  'commands.ncmget.messages.applying-effect': '正在处理音效 {0}...',
+  'commands.ncmget.messages.effect-error': '音效处理失败，将发送原文件',
+  'commands.ncmget.messages.invalid-clip': '无效的截取范围，格式如 1:00-1:30 或 60-90',
+  'commands.ncmget.messages.clip-out-of-range': '截取范围超出歌曲时长（{0}）',
+  'commands.ncmget.messages.chorus-unavailable': '这首歌没有副歌信息，无法只发送副歌',
+  'commands.ncmget.messages.clipping': '正在截取片段 {0}...',
+  'commands.ncmget.messages.clip-error': '截取片段失败，请稍后重试',
+  'commands.ncmget.messages.voice-error': '语音转码失败，改为发送原始音频',
+  'commands.ncmget.messages.invalid-provider': '未知的音乐来源，可选：{0}',
+  'commands.ncmget.messages.no-artist': '未找到相关歌手',
+  'commands.ncmget.messages.no-playlist': '未找到相关歌单',
+  'commands.ncmget.messages.artist-error': '获取歌手失败，请稍后重试',
+
+  'commands.ncmlyric.description': '获取网易云音乐歌词',
+  'commands.ncmlyric.messages.no-keyword': '请输入要查询歌词的歌曲名称或ID',
+  'commands.ncmlyric.messages.no-lyric': '《{0}》暂无歌词（可能是纯音乐）',
+  'commands.ncmlyric.messages.header': '《{0}》 - {1}',
+  'commands.ncmlyric.messages.lyric-error': '获取歌词失败，请稍后重试',
+
+  'commands.ncmplaylist.description': '获取网易云歌单',
+  'commands.ncmplaylist.messages.no-target': '请输入歌单ID或链接',
+  'commands.ncmplaylist.messages.invalid-target': '无法识别的歌单ID或链接',
+  'commands.ncmplaylist.messages.empty': '列表中没有可播放的曲目',
+  'commands.ncmplaylist.messages.playlist-error': '获取歌单失败，请检查歌单是否存在或公开',
+  'commands.ncmplaylist.messages.track-page': '《{0}》 第 {1}/{2} 页（共 {3} 首）',
+  'commands.ncmplaylist.messages.track-hint': '回复序号选择（可多选，如 1 3 5 或 2-4），回复 n/p 翻页，回复 0 退出',
+  'commands.ncmplaylist.messages.no-more-pages': '没有更多页了',
+
+  'commands.ncmalbum.description': '获取网易云专辑',
+  'commands.ncmalbum.messages.no-keyword': '请输入专辑名称、ID或链接',
+  'commands.ncmalbum.messages.no-results': '未找到相关专辑',
+  'commands.ncmalbum.messages.track-count': '{0} 首',
+  'commands.ncmalbum.messages.album-error': '获取专辑失败，请稍后重试',
+
+  'commands.ncmqueue.description': '点歌队列',
+  'commands.ncmqueue.messages.empty': '队列为空',
+  'commands.ncmqueue.messages.finished': '队列已播放完毕',
+  'commands.ncmqueue.add.description': '添加歌曲到队列',
+  'commands.ncmqueue.add.messages.added': '已添加《{0}》 - {1}，队列位置：{2}',
+  'commands.ncmqueue.add.messages.queue-full': '队列已满（上限 {0} 首）',
+  'commands.ncmqueue.list.description': '查看队列',
+  'commands.ncmqueue.list.messages.header': '队列中共 {0} 首：',
+  'commands.ncmqueue.list.messages.now-playing': '正在播放：《{0}》 - {1}',
+  'commands.ncmqueue.next.description': '播放队列中的下一首',
+  'commands.ncmqueue.skip.description': '跳过当前或下一首歌曲',
+  'commands.ncmqueue.skip.messages.skipped': '已跳过《{0}》 - {1}',
+  'commands.ncmqueue.clear.description': '清空队列',
+  'commands.ncmqueue.clear.messages.cleared': '队列已清空',
+
+  'commands.ncmhistory.description': '查看点歌历史',
+  'commands.ncmhistory.messages.empty': '暂无点歌记录',
+  'commands.ncmhistory.messages.header': '最近点过的 {0} 首歌：',
+  'commands.ncmhistory.messages.invalid-index': '序号无效，请先使用 ncmhistory 查看点歌历史',
+  'commands.ncmhistory.play.description': '重播点歌历史中的歌曲',
+
+  'commands.ncmfav.description': '收藏歌曲',
+  'commands.ncmfav.messages.empty': '收藏为空',
+  'commands.ncmfav.messages.invalid-index': '序号无效，请先使用 ncmfav list 查看收藏',
+  'commands.ncmfav.add.description': '收藏歌曲（ID或链接，省略时收藏最近点的歌）',
+  'commands.ncmfav.add.messages.added': '已收藏《{0}》 - {1}，收藏序号：{2}',
+  'commands.ncmfav.add.messages.exists': '《{0}》已在收藏中',
+  'commands.ncmfav.add.messages.full': '收藏已满（上限 {0} 首）',
+  'commands.ncmfav.add.messages.no-song': '请输入歌曲ID或链接，或先点一首歌',
+  'commands.ncmfav.remove.description': '取消收藏',
+  'commands.ncmfav.remove.messages.removed': '已取消收藏《{0}》 - {1}',
+  'commands.ncmfav.list.description': '查看收藏',
+  'commands.ncmfav.list.messages.header': '收藏共 {0} 首：',
+  'commands.ncmfav.play.description': '播放收藏中的歌曲',
+
+  'commands.ncmstats.description': '查看点歌排行与统计',
+  'commands.ncmstats.messages.period-day': '近 24 小时',
+  'commands.ncmstats.messages.period-week': '近 7 天',
+  'commands.ncmstats.messages.period-month': '近 30 天',
+  'commands.ncmstats.messages.header': '{0}本频道共点歌 {1} 次',
+  'commands.ncmstats.messages.empty': '{0}本频道暂无点歌记录',
+  'commands.ncmstats.messages.top-songs': '热门歌曲：',
+  'commands.ncmstats.messages.top-artists': '热门歌手：',
+  'commands.ncmstats.messages.top-users': '点歌达人：',
+  'commands.ncmstats.messages.count': '{0} 次',
+  'commands.ncmstats.messages.server': '全服：点歌 {0} 次，{1} 首歌曲，{2} 位用户',
+  'commands.ncmstats.messages.cache-rate': '缓存命中率：{0}%（命中 {1} 次 / 下载 {2} 次）',
+  'commands.ncmstats.messages.invalid-period': '统计周期无效，可选：day、week、month',
+  'commands.ncmstats.messages.stats-error': '获取统计失败，请稍后重试',
+
+  'commands.ncmlogin.description': '扫码登录网易云音乐',
+  'commands.ncmlogin.messages.pending': '已有进行中的扫码登录，请先完成或等待超时',
+  'commands.ncmlogin.messages.scan-prompt': '请使用网易云音乐 App 扫描二维码登录（3 分钟内有效）',
+  'commands.ncmlogin.messages.scanned': '{0} 已扫码，请在手机上确认登录',
+  'commands.ncmlogin.messages.success': '登录成功，Cookie 已保存',
+  'commands.ncmlogin.messages.expired': '二维码已过期，请重新执行登录',
+  'commands.ncmlogin.messages.login-error': '扫码登录失败，请稍后重试',
+
+  'commands.ncmaccount.description': '查看网易云账号与 Cookie 状态',
+  'commands.ncmaccount.messages.no-cookie': '未配置登录 Cookie，请填写 cookie 配置项或使用 ncmlogin 登录',
+  'commands.ncmaccount.messages.not-logged-in': '当前 Cookie 未登录或已失效，请使用 ncmlogin 重新登录',
+  'commands.ncmaccount.messages.account-error': '获取账号信息失败，请稍后重试',
+  'commands.ncmaccount.messages.nickname': '账号：{0}（{1}）',
+  'commands.ncmaccount.messages.vip': 'VIP：{0}，到期：{1}',
+  'commands.ncmaccount.messages.csrf': 'CSRF：{0}',
+  'commands.ncmaccount.messages.vip-none': '无',
+  'commands.ncmaccount.messages.vip-package': '音乐包',
+  'commands.ncmaccount.messages.vip-black': '黑胶VIP',
+  'commands.ncmaccount.messages.csrf-valid': '有效',
+  'commands.ncmaccount.messages.csrf-invalid': '无效',
+  'commands.ncmaccount.messages.csrf-missing': '未设置',
+  'commands.ncmaccount.messages.cookie-expired': '网易云 Cookie 已失效，VIP 歌曲将无法获取，请使用 ncmlogin 重新登录',
+  'commands.ncmcache.description': '管理歌曲缓存',
+  'commands.ncmcache.messages.empty': '当前没有缓存的歌曲',
+  'commands.ncmcache.stats.description': '查看缓存占用与命中率',
+  'commands.ncmcache.stats.messages.stats': '缓存歌曲 {0} 首，占用 {1} / {2}\n累计发送 {4} 次，命中缓存 {3} 次，命中率 {5}%',
+  'commands.ncmcache.list.description': '列出缓存歌曲（按最近访问排序）',
+  'commands.ncmcache.list.messages.header': '缓存共 {0} 首（第 {1}/{2} 页）：',
+  'commands.ncmcache.list.messages.item': '{0}. {1} - {2} ({3}, {4}, {5}, 发送 {6} 次)',
+  'commands.ncmcache.list.messages.invalid-page': '页码无效，共 {0} 页',
+  'commands.ncmcache.remove.description': '删除指定歌曲的缓存（所有音质）',
+  'commands.ncmcache.remove.messages.no-id': '请输入歌曲ID',
+  'commands.ncmcache.remove.messages.not-found': '歌曲 {0} 没有缓存',
+  'commands.ncmcache.remove.messages.removed': '已删除《{0}》 - {1} 的缓存，释放 {2}',
+  'commands.ncmcache.clear.description': '清空全部缓存',
+  'commands.ncmcache.clear.messages.cleared': '已删除 {0} 首歌曲的缓存，释放 {1}',
+  'commands.ncmcache.scan.description': '校验缓存目录与数据库记录',
+  'commands.ncmcache.scan.messages.done': '缓存校验完成：收录 {0} 个文件，删除 {1} 个无记录文件与 {2} 个临时文件，重置 {3} 条失效记录，修正 {4} 条文件大小',
+  'commands.ncmcache.scan.messages.scan-error': '校验缓存失败，请查看日志',
+  'commands.ncmcache.prewarm.description': '预先缓存搜索结果或歌单中的歌曲',
+  'commands.ncmcache.prewarm.messages.no-target': '请输入关键词或歌单链接',
+  'commands.ncmcache.prewarm.messages.start': '开始预热 {0} 首歌曲，请稍候…',
+  'commands.ncmcache.prewarm.messages.done': '预热完成：新增 {0} 首，已有缓存 {1} 首，失败 {2} 首',
 
   _config: {
     cookie: '网易云音乐 Cookie',
-    bitrate: '音频码率 (bps)',
+    baseUrl: '网易云接口地址（可指向自建的兼容网关、反向代理或测试用的模拟服务）',
+    proxyAgent: '代理服务器地址，支持 http / https / socks（如 socks5://127.0.0.1:1080）',
+    userAgent: '网页端接口（weapi）请求使用的 User-Agent',
+    realIpMode: {
+      _description: '伪造来源 IP（X-Real-IP），海外部署时可解除部分地区限制',
+      fixed: '固定 IP',
+      random: '每次请求随机国内 IP',
+      off: '不发送',
+    },
+    realIp: '固定模式下使用的 IP',
+    provider: '默认音乐来源（ncm、local 或其他插件注册的来源）',
+    localMusicPath: '本地音乐目录，填写后启用 local 来源',
+    quality: {
+      _description: '默认音质，不可用时自动降级',
+      standard: '标准 (128k)',
+      higher: '较高 (192k)',
+      exhigh: '极高 (320k)',
+      lossless: '无损 (FLAC)',
+      hires: 'Hi-Res',
+    },
+    trialPolicy: {
+      _description: '只能获取试听片段时（如未登录 VIP）的处理方式，试听片段不会写入缓存',
+      notice: '发送并提示',
+      refuse: '拒绝发送',
+    },
     searchTimeout: '搜索超时时间 (秒)',
     searchPageSize: '搜索结果数量',
     mergeSearchResults: '合并发送搜索结果',
@@ -24,11 +181,37 @@ export default {
       _description: '发送格式',
       file: '文件',
       audio: '语音/音频',
+      card: '音乐卡片',
+    },
+    cardFallback: {
+      _description: '平台不支持音乐卡片时的发送格式',
+      file: '文件',
+      audio: '语音/音频',
     },
     rateLimitEnabled: '启用频率限制',
     rateLimitInterval: '调用间隔 (秒)',
     rateLimitGlobal: '全局频率限制',
     cacheMaxSize: '缓存容量上限 (MB)',
+    maxConcurrentDownloads: '同时进行的下载数上限，超出时排队',
     cachePath: '缓存路径',
+    effectPresets: '自定义音效预设（名称 → ffmpeg 音频滤镜），与内置预设同名时覆盖',
+    voiceCodecs: '各平台语音消息的编码（平台 → opus/silk/amr/none），未列出的平台直接发送原文件',
+    voiceMaxDuration: '语音消息最长时长 (秒，0 为不限)，超出部分截断',
+    voiceMaxSize: '语音消息大小上限 (MB，0 为不限)，Opus 按此降低码率',
+    lyricTranslation: '歌词附带翻译',
+    lyricRomanization: '歌词附带罗马音',
+    lyricLinesPerMessage: '每条消息的歌词行数',
+    lyricMergeForward: '长歌词以合并转发发送',
+    autoParseLinks: '自动识别聊天中的歌曲链接',
+    trackPageSize: '歌单/专辑每页曲目数',
+    queueMaxLength: '每个频道的队列长度上限',
+    queueAutoAdvance: '队列自动连播（按歌曲时长播放下一首）',
+    accountCheckInterval: 'Cookie 有效性检查间隔 (分钟，0 为关闭)',
+    accountNotifyChannel: 'Cookie 失效时通知的频道 (platform:channelId)',
+    embedMetadata: '写入歌曲标签与封面',
+    embedLyrics: '标签中附带歌词',
+    historyLimit: '每位用户保留的点歌历史数',
+    favoriteMaxLength: '每位用户的收藏数上限',
+    statsRetention: '点歌统计保留天数 (0 为永久保留)，建议不少于 30 天以覆盖月榜',
   },
 }
@@ -0,0 +1,70 @@
+export interface LyricLine {
+  time: number // 时间戳（毫秒）
+  text: string
+}
+
+const TIME_TAG = /\[(\d+):(\d+)(?:[.:](\d+))?\]/g
+
+/** 解析 LRC 文本，支持单行多时间戳与网易云的 JSON 制作人员行 */
+export function parseLrc(lrc: string): LyricLine[] {
+  const lines: LyricLine[] = []
+  if (!lrc) return lines
+
+  for (const raw of lrc.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line) continue
+
+    // 网易云在歌词开头插入的 {"t":0,"c":[{"tx":"作词: "},{"tx":"xxx"}]}
+    if (line.startsWith('{')) {
+      try {
+        const json = JSON.parse(line)
+        const text = (json.c || []).map((c: any) => c.tx || '').join('').trim()
+        if (text) lines.push({ time: Number(json.t) || 0, text })
+      } catch {
+        // 忽略无法解析的行
+      }
+      continue
+    }
+
+    const times: number[] = []
+    let lastIndex = 0
+    TIME_TAG.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = TIME_TAG.exec(line)) && match.index === lastIndex) {
+      const [, min, sec, frac = '0'] = match
+      const ms = Math.round(Number(`0.${frac}`) * 1000)
+      times.push(Number(min) * 60000 + Number(sec) * 1000 + ms)
+      lastIndex = TIME_TAG.lastIndex
+    }
+
+    // 无时间戳的元信息行（如 [ar:xxx]）直接忽略
+    if (!times.length) continue
+
+    const text = line.slice(lastIndex).trim()
+    if (!text) continue
+    for (const time of times) lines.push({ time, text })
+  }
+
+  return lines.sort((a, b) => a.time - b.time)
+}
+
+/**
+ * 以原文歌词为准，按时间戳合并翻译、罗马音等附加歌词。
+ * 每个原文行与其附加行组成一个段落返回。
+ */
+export function mergeLyrics(original: LyricLine[], ...extras: LyricLine[][]): string[] {
+  const extraMaps = extras.map(lines => {
+    const map = new Map<number, string>()
+    for (const line of lines) map.set(line.time, line.text)
+    return map
+  })
+
+  return original.map(line => {
+    const parts = [line.text]
+    for (const map of extraMaps) {
+      const text = map.get(line.time)
+      if (text && text !== line.text) parts.push(text)
+    }
+    return parts.join('\n')
+  })
+}
@@ -0,0 +1,84 @@
+import { Context, Service } from 'koishi'
+import { SearchResult, SearchPage, QualityUrl, DownloadCheck, LyricResult, Quality } from './service'
+
+/**
+ * 音乐来源。歌曲在插件内以「来源:ID」的形式标识（如 ncm:12345），
+ * 其他插件可通过 ctx.musicProvider.register() 注册新的来源。
+ */
+export interface MusicProvider {
+  /** 来源标识，作为歌曲ID前缀，不能包含冒号 */
+  readonly name: string
+  /** 下载得到的文件自带完整标签，跳过元数据写入 */
+  readonly preserveTags?: boolean
+  /** 按关键词搜索歌曲，返回来源内的原始ID */
+  searchMusic(keyword: string, limit: number, offset: number): Promise<SearchPage<SearchResult>>
+  getSongDetail(ids: string[]): Promise<SearchResult[]>
+  /** 获取指定音质的音频地址，不可用时可降级，均不可用时返回 null */
+  getSongUrlByQuality(id: string, quality: Quality): Promise<QualityUrl | null>
+  /** 将 getSongUrlByQuality 返回的地址保存到 savePath，失败时不应留下文件 */
+  downloadSong(url: string, savePath: string, check: DownloadCheck): Promise<void>
+  getLyric(id: string): Promise<LyricResult | null>
+}
+
+/** 未带前缀的歌曲ID（如旧版缓存记录）视为网易云歌曲 */
+export const DEFAULT_PROVIDER = 'ncm'
+
+/** 将歌曲ID转换为带来源前缀的形式，已带前缀时原样返回 */
+export function toSongKey(id: string | number, provider = DEFAULT_PROVIDER): string {
+  const value = String(id)
+  return value.includes(':') ? value : `${provider}:${value}`
+}
+
+/** 拆分带来源前缀的歌曲ID */
+export function parseSongKey(key: string): { provider: string; id: string } {
+  const index = key.indexOf(':')
+  if (index === -1) return { provider: DEFAULT_PROVIDER, id: key }
+  return { provider: key.slice(0, index), id: key.slice(index + 1) }
+}
+
+export class MusicProviderService extends Service {
+  private providers = new Map<string, MusicProvider>()
+
+  constructor(ctx: Context) {
+    super(ctx, 'musicProvider', true)
+  }
+
+  /** 注册音乐来源，注册方插件卸载时自动移除；返回值可用于手动移除 */
+  register(provider: MusicProvider) {
+    if (!provider.name || provider.name.includes(':')) {
+      throw new Error(`非法的音乐来源标识: ${provider.name}`)
+    }
+    return this.ctx.effect(() => {
+      this.providers.set(provider.name, provider)
+      return () => {
+        if (this.providers.get(provider.name) === provider) this.providers.delete(provider.name)
+      }
+    })
+  }
+
+  get(name: string): MusicProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  list(): string[] {
+    return [...this.providers.keys()]
+  }
+
+  /** 根据带前缀的歌曲ID找到对应来源，来源未注册时返回 undefined */
+  resolve(key: string): { provider: MusicProvider; id: string } | undefined {
+    const { provider, id } = parseSongKey(key)
+    const instance = this.providers.get(provider)
+    if (instance) return { provider: instance, id }
+  }
+
+  /** 在指定来源中搜索，结果ID带来源前缀 */
+  async search(name: string, keyword: string, limit: number, offset = 0): Promise<SearchPage<SearchResult>> {
+    const provider = this.providers.get(name)
+    if (!provider) throw new Error(`未知的音乐来源: ${name}`)
+    const page = await provider.searchMusic(keyword, limit, offset)
+    return {
+      ...page,
+      items: page.items.map(song => ({ ...song, id: toSongKey(song.id, provider.name) })),
+    }
+  }
+}
@@ -3,6 +3,12 @@ import { Config } from './index'
 import * as crypto from 'crypto'
 import * as fs from 'fs/promises'
 import * as path from 'path'
+import { createWriteStream } from 'fs'
+import { Readable, Transform } from 'stream'
+import { pipeline } from 'stream/promises'
+import { ReadableStream } from 'stream/web'
+import { MusicProvider } from './provider'
+import { CryptoMode, createSecretKey, encryptRequest } from './crypto'
 
 export interface SearchResult {
   id: string
@@ -11,6 +17,9 @@ export interface SearchResult {
   album: string
   duration: number
   fee: number // 0=免费 1=VIP 4=购买专辑 8=限免
+  coverUrl?: string // 专辑封面
+  trackNumber?: number // 专辑内曲目序号
+  publishTime?: number // 发行时间戳
 }
 
 export interface SongUrl {
@@ -20,28 +29,222 @@ export interface SongUrl {
   size: number
   md5: string
   type: string
+  level?: string // 实际返回的音质档位（eapi 接口）
+  time?: number // 音频时长（ms）
+  freeTrialInfo?: { start: number; end: number } // 试听片段的起止时间（秒），完整歌曲为空
 }
 
-export class NcmService extends Service {
+/** 音频时长或按码率估算的时长不足歌曲时长的此比例时，视为试听片段 */
+const TRIAL_RATIO = 0.6
+
+/**
+ * 判断音频是否为试听片段，返回片段时长（ms），完整歌曲返回 undefined。
+ * 优先采用接口返回的 freeTrialInfo，其次将音频时长、按码率估算的时长与歌曲时长比较。
+ */
+export function detectTrialClip(info: Partial<SongUrl>, duration?: number): number | undefined {
+  if (info.freeTrialInfo) return (info.freeTrialInfo.end - info.freeTrialInfo.start) * 1000
+  if (!duration) return
+  const length = info.time || (info.size && info.br ? info.size * 8 / info.br * 1000 : 0)
+  if (length && length < duration * TRIAL_RATIO) return length
+}
+
+export type Quality = 'standard' | 'higher' | 'exhigh' | 'lossless' | 'hires'
+
+/** 音质档位，由低到高 */
+export const QUALITIES: Quality[] = ['standard', 'higher', 'exhigh', 'lossless', 'hires']
+
+const QUALITY_BITRATE: Record<Quality, number> = {
+  standard: 128000,
+  higher: 192000,
+  exhigh: 320000,
+  lossless: 999000,
+  hires: 1999000,
+}
+
+export interface QualityUrl {
+  urlInfo: SongUrl
+  quality: Quality // 实际获取到的音质档位
+}
+
+export interface TrackList {
+  id: string
+  name: string
+  creator: string // 歌单创建者 / 专辑艺术家
+  tracks: SearchResult[]
+}
+
+export interface AlbumResult {
+  id: string
+  name: string
+  artist: string
+  size: number // 曲目数
+}
+
+export interface ArtistResult {
+  id: string
+  name: string
+  alias: string // 别名/译名
+  albumSize: number // 专辑数
+}
+
+export interface PlaylistResult {
+  id: string
+  name: string
+  creator: string
+  trackCount: number
+}
+
+export type SearchType = 'song' | 'album' | 'artist' | 'playlist'
+
+// cloudsearch 的 type 参数及结果列表、总数所在字段
+const SEARCH_TYPES: Record<SearchType, { code: number; list: string; count: string }> = {
+  song: { code: 1, list: 'songs', count: 'songCount' },
+  album: { code: 10, list: 'albums', count: 'albumCount' },
+  artist: { code: 100, list: 'artists', count: 'artistCount' },
+  playlist: { code: 1000, list: 'playlists', count: 'playlistCount' },
+}
+
+export interface SearchPage<T> {
+  items: T[]
+  total: number // 服务端返回的结果总数，用于分页
+}
+
+export interface LyricResult {
+  lrc: string // 原文歌词
+  tlyric: string // 翻译歌词
+  romalrc: string // 罗马音歌词
+}
+
+export interface TimeRange {
+  start: number // 开始时间（毫秒）
+  end: number // 结束时间（毫秒）
+}
+
+export interface DownloadCheck {
+  size?: number // 期望的文件大小（字节）
+  md5?: string // 期望的 MD5
+}
+
+export interface AccountStatus {
+  loggedIn: boolean
+  nickname?: string
+  userId?: string
+  vipType: number // 0=无 10=音乐包 11=黑胶VIP
+  vipExpireTime?: number // VIP 到期时间戳
+  csrfValid?: boolean // 未设置 __csrf 时为 undefined
+}
+
+export interface QrLoginStatus {
+  code: number // 800=二维码过期 801=等待扫码 802=待确认 803=登录成功
+  nickname?: string
+}
+
+interface ApiOptions {
+  /** 加密方式，默认 weapi */
+  crypto?: CryptoMode
+  /** 视为成功的响应码，默认仅 200 */
+  codes?: number[]
+  /** 保存响应中的全部 Cookie（登录时使用），默认只刷新登录态字段 */
+  allCookies?: boolean
+}
+
+/** 常规请求中需要跟随 Set-Cookie 刷新的登录态字段 */
+const REFRESH_COOKIES = ['MUSIC_U', '__csrf']
+
+/** ncm_cookie 表中记录配置项 Cookie 摘要的行，名称含有 Cookie 名称中不允许的字符，不会与真实 Cookie 冲突 */
+const CONFIG_HASH_COOKIE = ':config-hash'
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36'
+export const DEFAULT_REAL_IP = '116.25.146.177'
+
+/** 国内运营商的常用地址段，随机 IP 模式从中取址 */
+const CHINA_IP_RANGES: [string, number][] = [
+  ['59.32.0.0', 11],
+  ['111.0.0.0', 10],
+  ['113.64.0.0', 10],
+  ['116.25.0.0', 16],
+  ['183.0.0.0', 10],
+  ['223.104.0.0', 14],
+]
+
+/** eapi 请求模拟的 PC 客户端，同时写入请求参数的 header 与 Cookie */
+const EAPI_CLIENT = { os: 'pc', appver: '2.10.13.202675' }
+
+/** eapi 与 linuxapi 模拟客户端请求，使用对应客户端的 User-Agent */
+const CLIENT_USER_AGENTS: Partial<Record<CryptoMode, string>> = {
+  eapi: 'Mozilla/5.0 (Windows NT 10.0; WOW64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.164 NeteaseMusicDesktop/2.10.13.202675',
+  linuxapi: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/60.0.3112.90 Safari/537.36',
+}
+
+export function randomChinaIp(): string {
+  const [base, prefix] = CHINA_IP_RANGES[Math.floor(Math.random() * CHINA_IP_RANGES.length)]
+  const start = base.split('.').reduce((value, part) => value * 256 + Number(part), 0)
+  const address = start + Math.floor(Math.random() * 2 ** (32 - prefix))
+  return [24, 16, 8, 0].map(shift => Math.floor(address / 2 ** shift) % 256).join('.')
+}
+
+/** 不属于用户配置的运行参数，测试时用于固定加密密钥与缩短重试等待 */
+export interface NcmServiceOptions {
+  /** 固定 weapi 的二次加密密钥，省略时每次请求随机生成 */
+  secretKey?: string
+  /** 重试基础延迟（ms），默认 1000 */
+  retryBaseDelay?: number
+}
+
+export class NcmService extends Service implements MusicProvider {
   private cookieStore: Record<string, string> = {}
   private http: HTTP
   /** 最大重试次数 */
   private readonly maxRetries = 3
   /** 重试基础延迟（ms） */
-  private readonly retryBaseDelay = 1000
+  private readonly retryBaseDelay: number
+  /** 歌单最多加载的曲目数 */
+  private readonly playlistTrackLimit = 1000
+  /** 歌曲详情单次查询数量 */
+  private readonly detailBatchSize = 500
 
-  constructor(ctx: Context, public config: Config) {
+  constructor(ctx: Context, public config: Config, private options: NcmServiceOptions = {}) {
     super(ctx, 'ncm', true)
+    this.retryBaseDelay = options.retryBaseDelay ?? 1000
     this.http = ctx.http.extend({
       headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+        'User-Agent': config.userAgent || DEFAULT_USER_AGENT,
         'Referer': 'https://music.163.com',
-        'X-Real-IP': '116.25.146.177',
-      }
+      },
+      // 由 Koishi 的 proxy-agent 服务处理 http / https / socks 代理
+      ...(config.proxyAgent ? { proxyAgent: config.proxyAgent } : {}),
     })
     this.loadCookies()
   }
 
+  // 加载扫码登录或自动刷新后保存的 Cookie，覆盖配置项中的同名字段；
+  // 配置项中的 Cookie 变更后以新配置为准，清除之前保存的 Cookie
+  async start() {
+    try {
+      const configHash = this.config.cookie ? crypto.createHash('md5').update(this.config.cookie).digest('hex') : ''
+      const rows = await this.ctx.database.get('ncm_cookie', {})
+      const storedHash = rows.find(row => row.name === CONFIG_HASH_COOKIE)?.value || ''
+      if (storedHash !== configHash) {
+        await this.ctx.database.remove('ncm_cookie', {})
+        if (configHash) {
+          await this.ctx.database.upsert('ncm_cookie', [{ name: CONFIG_HASH_COOKIE, value: configHash, updateTime: Date.now() }])
+        }
+        if (rows.some(row => row.name !== CONFIG_HASH_COOKIE)) {
+          this.ctx.logger('ncm').info('配置项中的 Cookie 已变更，已清除之前保存的 Cookie')
+        }
+        return
+      }
+
+      const cookies = rows.filter(row => row.name !== CONFIG_HASH_COOKIE)
+      for (const row of cookies) {
+        this.cookieStore[row.name] = row.value
+      }
+      if (cookies.length) this.ctx.logger('ncm').info(`已加载 ${cookies.length} 条已保存的 Cookie`)
+    } catch (e) {
+      this.ctx.logger('ncm').warn('加载已保存的 Cookie 失败:', e)
+    }
+  }
+
   /**
    * 重试执行异步操作（指数退避）
    */
@@ -90,9 +293,41 @@ export class NcmService extends Service {
     }
   }
 
-  // 获取Cookie字符串
-  private getCookieString(): string {
-    return Object.entries(this.cookieStore).map(([k, v]) => `${k}=${v}`).join('; ')
+  // 根据 Set-Cookie 响应头更新 Cookie 并持久化，names 为空时接受全部字段
+  private updateCookies(headers: Headers | undefined, names?: string[]) {
+    const updated: Record<string, string> = {}
+    for (const item of headers?.getSetCookie?.() || []) {
+      const [pair, ...attrs] = item.split(';')
+      const index = pair.indexOf('=')
+      if (index <= 0) continue
+
+      const name = pair.slice(0, index).trim()
+      const value = pair.slice(index + 1).trim()
+      if (names && !names.includes(name)) continue
+      // 跳过服务端删除 Cookie 的响应
+      if (!value || attrs.some(attr => /^\s*max-age=0\s*$/i.test(attr))) continue
+      if (this.cookieStore[name] === value) continue
+
+      this.cookieStore[name] = value
+      updated[name] = value
+    }
+
+    if (!Object.keys(updated).length) return
+    this.ctx.logger('ncm').debug('Cookie 已刷新:', Object.keys(updated).join(', '))
+    const updateTime = Date.now()
+    this.ctx.database.upsert('ncm_cookie', Object.entries(updated).map(([name, value]) => ({ name, value, updateTime })))
+      .catch(e => this.ctx.logger('ncm').warn('保存 Cookie 失败:', e))
+  }
+
+  // 伪造的来源 IP，随机模式下每次请求更换
+  private getRealIp(): string | undefined {
+    if (this.config.realIpMode === 'random') return randomChinaIp()
+    if (this.config.realIpMode === 'fixed') return this.config.realIp || DEFAULT_REAL_IP
+  }
+
+  // 获取Cookie字符串，extra 为客户端请求附加的字段
+  private getCookieString(extra: Record<string, string> = {}): string {
+    return Object.entries({ ...extra, ...this.cookieStore }).map(([k, v]) => `${k}=${v}`).join('; ')
   }
 
   private unwrapJsonResponse<T>(response: any): T {
@@ -107,172 +342,166 @@ export class NcmService extends Service {
     return data as T
   }
 
-  // WEAPI加密
-  private weapi(params: any): string {
-    const text = JSON.stringify(params)
-    const secKey = Array.from({ length: 16 }, () =>
-      'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'[Math.floor(Math.random() * 62)]
-    ).join('')
-
-    const encText = this.aesEncrypt(this.aesEncrypt(text, '0CoJUm6Qyw8W8jud'), secKey)
-    const encSecKey = this.rsaEncrypt(secKey)
-
-    return `params=${encodeURIComponent(encText)}&encSecKey=${encodeURIComponent(encSecKey)}`
+  // weapi 附带 csrf_token，eapi 附带模拟客户端的 header 字段
+  private withClientParams(mode: CryptoMode, params: Record<string, any>): Record<string, any> {
+    const csrf = this.cookieStore['__csrf'] || ''
+    if (mode === 'weapi') return { ...params, csrf_token: csrf }
+    if (mode === 'eapi') {
+      const requestId = `${Date.now()}_${Math.floor(Math.random() * 1000).toString().padStart(4, '0')}`
+      return { ...params, header: { ...EAPI_CLIENT, __csrf: csrf, requestId } }
+    }
+    return params
   }
 
-  private aesEncrypt(text: string, key: string): string {
-    const cipher = crypto.createCipheriv('aes-128-cbc', key, '0102030405060708')
-    return cipher.update(text, 'utf8', 'base64') + cipher.final('base64')
-  }
+  // 通用接口请求，按加密方式处理请求体，统一处理 Cookie、响应解包与错误码；path 为 /api/ 开头的接口路径
+  private async postApi(path: string, params: Record<string, any>, label: string, options: ApiOptions = {}): Promise<any> {
+    const mode = options.crypto || 'weapi'
+    // weapi 每次请求使用新的随机密钥，指定了固定密钥时除外
+    const secretKey = this.options.secretKey || createSecretKey()
+    const { endpoint, body } = encryptRequest(mode, path, this.withClientParams(mode, params), secretKey)
+    const cookie = this.getCookieString(mode === 'eapi' ? EAPI_CLIENT : {})
+    const realIp = this.getRealIp()
+
+    const raw = await this.http('POST', this.config.baseUrl.replace(/\/+$/, '') + endpoint, {
+      data: body,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...(CLIENT_USER_AGENTS[mode] ? { 'User-Agent': CLIENT_USER_AGENTS[mode] } : {}),
+        ...(cookie ? { 'Cookie': cookie } : {}),
+        ...(realIp ? { 'X-Real-IP': realIp, 'X-Forwarded-For': realIp } : {}),
+      }
+    })
+    this.updateCookies(raw.headers, options.allCookies ? undefined : REFRESH_COOKIES)
 
-  private rsaEncrypt(text: string): string {
-    const reversed = text.split('').reverse().join('')
-    const hex = Buffer.from(reversed).toString('hex')
-    const bi = BigInt('0x' + hex)
-    const modulus = BigInt('0x00e0b509f6259df8642dbc35662901477df22677ec152b5ff68ace615bb7b725152b3ab17a876aea8a5aa76d2e417629ec4ee341f56135fccf695280104e0312ecbda92557c93870114af6c9d05c4f7f0c3685b7a46bee255932575cce10b424d813cfe4875d3e82047b97ddef52741d546b8e289dc6935b3ece0462db0a22b8e7')
-    const exponent = BigInt('0x010001')
-    const encrypted = this.powMod(bi, exponent, modulus)
-    return encrypted.toString(16).padStart(256, '0')
-  }
+    const response = this.unwrapJsonResponse<any>(raw)
+    this.ctx.logger('ncm').debug(`${label}响应:`, JSON.stringify(response).substring(0, 500))
 
-  private powMod(base: bigint, exp: bigint, mod: bigint): bigint {
-    let result = BigInt(1)
-    base = base % mod
-    while (exp > 0) {
-      if (exp % BigInt(2) === BigInt(1)) {
-        result = (result * base) % mod
-      }
-      exp = exp / BigInt(2)
-      base = (base * base) % mod
+    if (!response || typeof response !== 'object') {
+      const preview = typeof response === 'string' ? response.slice(0, 200) : String(response)
+      throw new Error(`${label}失败: 响应格式异常 (${typeof response}) ${preview}`)
     }
-    return result
+
+    if (!(options.codes || [200]).includes(response.code)) {
+      throw new Error(`${label}失败: ${response.message || response.msg || 'code=' + response.code}`)
+    }
+
+    return response
   }
 
+  // 兼容 cloudsearch（ar / al / dt）与旧版搜索（artists / album / duration）两种字段
   private parseSongs(songs: any[]): SearchResult[] {
     return songs.map((song: any) => ({
       id: String(song.id),
       name: song.name,
-      artist: song.ar?.map((a: any) => a.name).join('/') || '未知艺术家',
-      album: song.al?.name || '未知专辑',
-      duration: song.dt,
-      fee: song.fee || 0
+      artist: (song.ar || song.artists)?.map((a: any) => a.name).join('/') || '未知艺术家',
+      album: (song.al || song.album)?.name || '未知专辑',
+      duration: song.dt ?? song.duration,
+      fee: song.fee || 0,
+      coverUrl: (song.al || song.album)?.picUrl || undefined,
+      trackNumber: song.no || undefined,
+      publishTime: song.publishTime || undefined,
+    }))
+  }
+
+  private parseAlbums(albums: any[]): AlbumResult[] {
+    return albums.map((album: any) => ({
+      id: String(album.id),
+      name: album.name,
+      artist: album.artists?.map((a: any) => a.name).join('/') || album.artist?.name || '未知艺术家',
+      size: album.size || 0,
+    }))
+  }
+
+  private parseArtists(artists: any[]): ArtistResult[] {
+    return artists.map((artist: any) => ({
+      id: String(artist.id),
+      name: artist.name,
+      alias: [...(artist.alia || artist.alias || []), ...(artist.trans ? [artist.trans] : [])]
+        .filter((name: string, index: number, list: string[]) => name && list.indexOf(name) === index)
+        .join('/'),
+      albumSize: artist.albumSize || 0,
     }))
   }
 
-  // cloudsearch 搜索
-  private async cloudSearch(keyword: string, limit: number, offset: number): Promise<SearchResult[]> {
-    const params = {
+  private parsePlaylists(playlists: any[]): PlaylistResult[] {
+    return playlists.map((playlist: any) => ({
+      id: String(playlist.id),
+      name: playlist.name,
+      creator: playlist.creator?.nickname || '',
+      trackCount: playlist.trackCount || 0,
+    }))
+  }
+
+  // cloudsearch 搜索，返回原始 result 对象
+  private async cloudSearch(keyword: string, type: SearchType, limit: number, offset: number): Promise<any> {
+    const response = await this.postApi('/api/cloudsearch/pc', {
       s: keyword,
-      type: 1,
+      type: SEARCH_TYPES[type].code,
       limit,
       offset,
       total: true,
-      csrf_token: this.cookieStore['__csrf'] || ''
-    }
-
-    const cookie = this.getCookieString()
-    const body = this.weapi(params)
-
-    const raw = await this.http.post('https://music.163.com/weapi/cloudsearch/pc', body, {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        ...(cookie ? { 'Cookie': cookie } : {})
-      }
-    })
-
-    const response = this.unwrapJsonResponse<any>(raw)
-    this.ctx.logger('ncm').debug('cloudsearch 响应:', JSON.stringify(response).substring(0, 500))
-
-    if (!response || typeof response !== 'object') {
-      const preview = typeof response === 'string' ? response.slice(0, 200) : String(response)
-      throw new Error(`搜索失败: 响应格式异常 (${typeof response}) ${preview}`)
-    }
-
-    if (response.code !== 200) {
-      throw new Error(`搜索失败: ${response.message || response.msg || 'code=' + response.code}`)
-    }
-
-    return this.parseSongs(response.result?.songs || [])
+    }, '搜索')
+    return response.result || {}
   }
 
   // 旧版搜索（fallback）
-  private async legacySearch(keyword: string, limit: number, offset: number): Promise<SearchResult[]> {
-    const params = {
+  private async legacySearch(keyword: string, type: SearchType, limit: number, offset: number): Promise<any> {
+    const response = await this.postApi('/api/search/get', {
       s: keyword,
-      type: 1,
+      type: SEARCH_TYPES[type].code,
       limit,
       offset,
-      csrf_token: this.cookieStore['__csrf'] || ''
-    }
-
-    const cookie = this.getCookieString()
-    const body = this.weapi(params)
-
-    const raw = await this.http.post('https://music.163.com/weapi/search/get', body, {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        ...(cookie ? { 'Cookie': cookie } : {})
-      }
-    })
-
-    const response = this.unwrapJsonResponse<any>(raw)
-    this.ctx.logger('ncm').debug('legacy search 响应:', JSON.stringify(response).substring(0, 500))
-
-    if (!response || typeof response !== 'object') {
-      const preview = typeof response === 'string' ? response.slice(0, 200) : String(response)
-      throw new Error(`搜索失败: 响应格式异常 (${typeof response}) ${preview}`)
-    }
-
-    if (response.code !== 200) {
-      throw new Error(`搜索失败: ${response.message || response.msg || 'code=' + response.code}`)
-    }
-
-    return this.parseSongs(response.result?.songs || [])
+    }, '搜索')
+    return response.result || {}
   }
 
-  // 搜索音乐（cloudsearch 失败时自动降级到旧版搜索）
-  async searchMusic(keyword: string, limit: number = 30, offset: number = 0): Promise<SearchResult[]> {
-    return this.withRetry(async () => {
+  // 按类型搜索（cloudsearch 失败时自动降级到旧版搜索），结果交由对应的解析函数处理
+  private async search<T>(keyword: string, type: SearchType, limit: number, offset: number, parse: (list: any[]) => T[]): Promise<SearchPage<T>> {
+    const result = await this.withRetry(async () => {
       try {
-        return await this.cloudSearch(keyword, limit, offset)
+        return await this.cloudSearch(keyword, type, limit, offset)
       } catch (e) {
         this.ctx.logger('ncm').warn(`cloudsearch 失败，降级到旧版搜索: ${(e as Error).message}`)
-        return await this.legacySearch(keyword, limit, offset)
+        return await this.legacySearch(keyword, type, limit, offset)
       }
-    }, '搜索音乐')
+    }, '搜索')
+    const { list, count } = SEARCH_TYPES[type]
+    return this.toSearchPage(parse(result[list] || []), result[count], offset)
   }
 
-  // 获取歌曲播放URL
-  async getSongUrl(id: string, br: number = 320000): Promise<SongUrl | null> {
-    const params = {
-      ids: `[${id}]`,
-      br,
-      csrf_token: this.cookieStore['__csrf'] || ''
-    }
-
-    return this.withRetry(async () => {
-      const cookie = this.getCookieString()
-      const body = this.weapi(params)
+  // 服务端未返回总数时，以已获取到的数量为准
+  private toSearchPage<T>(items: T[], total: number | undefined, offset: number): SearchPage<T> {
+    return { items, total: Math.max(Number(total) || 0, offset + items.length) }
+  }
 
-      const raw = await this.http.post('https://music.163.com/weapi/song/enhance/player/url', body, {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          ...(cookie ? { 'Cookie': cookie } : {})
-        }
-      })
+  // 搜索音乐
+  async searchMusic(keyword: string, limit: number = 30, offset: number = 0): Promise<SearchPage<SearchResult>> {
+    return this.search(keyword, 'song', limit, offset, songs => this.parseSongs(songs))
+  }
 
-      const response = this.unwrapJsonResponse<any>(raw)
+  // 搜索专辑
+  async searchAlbum(keyword: string, limit: number = 30, offset: number = 0): Promise<SearchPage<AlbumResult>> {
+    return this.search(keyword, 'album', limit, offset, albums => this.parseAlbums(albums))
+  }
 
-      this.ctx.logger('ncm').debug('获取URL响应:', JSON.stringify(response).substring(0, 500))
+  // 搜索歌手
+  async searchArtist(keyword: string, limit: number = 30, offset: number = 0): Promise<SearchPage<ArtistResult>> {
+    return this.search(keyword, 'artist', limit, offset, artists => this.parseArtists(artists))
+  }
 
-      if (!response || typeof response !== 'object') {
-        const preview = typeof response === 'string' ? response.slice(0, 200) : String(response)
-        throw new Error(`获取URL失败: 响应格式异常 (${typeof response}) ${preview}`)
-      }
+  // 搜索歌单
+  async searchPlaylist(keyword: string, limit: number = 30, offset: number = 0): Promise<SearchPage<PlaylistResult>> {
+    return this.search(keyword, 'playlist', limit, offset, playlists => this.parsePlaylists(playlists))
+  }
 
-      if (response.code !== 200) {
-        throw new Error(`获取URL失败: ${response.message || response.msg || 'code=' + response.code}`)
-      }
+  // 获取歌曲播放URL：eapi 按音质档位请求，服务端在档位不可用时自动降级并返回实际档位
+  async getSongUrl(id: string, quality: Quality = 'exhigh'): Promise<SongUrl | null> {
+    return this.withRetry(async () => {
+      const response = await this.postApi('/api/song/enhance/player/url/v1', {
+        ids: `[${id}]`,
+        level: quality,
+        encodeType: 'flac',
+      }, '获取URL', { crypto: 'eapi' })
 
       const data = response.data?.[0]
       if (!data || !data.url) {
@@ -285,27 +514,276 @@ export class NcmService extends Service {
         br: data.br,
         size: data.size,
         md5: data.md5,
-        type: data.type
+        type: data.type,
+        level: data.level,
+        time: data.time || undefined,
+        freeTrialInfo: data.freeTrialInfo || undefined,
       }
     }, '获取歌曲URL')
   }
 
-  // 下载歌曲
-  async downloadSong(url: string, savePath: string): Promise<void> {
+  // 按音质档位获取播放URL，请求的档位不可用时逐级降低
+  async getSongUrlByQuality(id: string, quality: Quality): Promise<QualityUrl | null> {
+    for (let index = QUALITIES.indexOf(quality); index >= 0; index--) {
+      const requested = QUALITIES[index]
+      const urlInfo = await this.getSongUrl(id, requested)
+      if (!urlInfo?.url) continue
+
+      // 服务端可能返回比请求更低的档位，以实际档位与格式为准
+      const actual = this.getUrlQuality(urlInfo)
+      return {
+        urlInfo,
+        quality: QUALITIES.indexOf(actual) < index ? actual : requested,
+      }
+    }
+    return null
+  }
+
+  // 优先采用接口返回的档位，否则根据码率与格式判断
+  getUrlQuality(urlInfo: Pick<SongUrl, 'br' | 'type' | 'level'>): Quality {
+    if (QUALITIES.includes(urlInfo.level as Quality)) return urlInfo.level as Quality
+    if (urlInfo.type?.toLowerCase() === 'flac') {
+      return urlInfo.br > 1411200 ? 'hires' : 'lossless'
+    }
+    if (urlInfo.br >= QUALITY_BITRATE.exhigh) return 'exhigh'
+    if (urlInfo.br >= QUALITY_BITRATE.higher) return 'higher'
+    return 'standard'
+  }
+
+  // 获取歌曲详情（按ID批量查询）
+  async getSongDetail(ids: string[]): Promise<SearchResult[]> {
+    const results: SearchResult[] = []
+    for (let i = 0; i < ids.length; i += this.detailBatchSize) {
+      const batch = ids.slice(i, i + this.detailBatchSize)
+      const songs = await this.withRetry(async () => {
+        const response = await this.postApi('/api/v3/song/detail', {
+          c: JSON.stringify(batch.map(id => ({ id }))),
+        }, '获取歌曲详情')
+        return this.parseSongs(response.songs || [])
+      }, '获取歌曲详情')
+      results.push(...songs)
+    }
+    return results
+  }
+
+  // 获取歌单详情及曲目
+  async getPlaylist(id: string): Promise<TrackList> {
+    const playlist = await this.withRetry(async () => {
+      const response = await this.postApi('/api/v6/playlist/detail', {
+        id,
+        n: 100000,
+        s: 8,
+      }, '获取歌单')
+      if (!response.playlist) throw new Error('获取歌单失败: 歌单不存在')
+      return response.playlist
+    }, '获取歌单')
+
+    const ids: string[] = (playlist.trackIds || []).map((t: any) => String(t.id)).slice(0, this.playlistTrackLimit)
+    let tracks = this.parseSongs(playlist.tracks || [])
+    // 未登录时 tracks 可能被截断，按 trackIds 补全
+    if (ids.length > tracks.length) {
+      tracks = await this.getSongDetail(ids)
+    }
+
+    return {
+      id: String(playlist.id),
+      name: playlist.name,
+      creator: playlist.creator?.nickname || '',
+      tracks: tracks.slice(0, this.playlistTrackLimit),
+    }
+  }
+
+  // 获取专辑详情及曲目
+  async getAlbum(id: string): Promise<TrackList> {
+    return this.withRetry(async () => {
+      const response = await this.postApi(`/api/v1/album/${encodeURIComponent(id)}`, {}, '获取专辑')
+      if (!response.album) throw new Error('获取专辑失败: 专辑不存在')
+      return {
+        id: String(response.album.id),
+        name: response.album.name,
+        creator: response.album.artists?.map((a: any) => a.name).join('/') || response.album.artist?.name || '',
+        tracks: this.parseSongs(response.songs || []),
+      }
+    }, '获取专辑')
+  }
+
+  // 获取歌手热门歌曲（最多 50 首）
+  async getArtistTopSongs(id: string): Promise<TrackList> {
+    return this.withRetry(async () => {
+      const response = await this.postApi(`/api/v1/artist/${encodeURIComponent(id)}`, {}, '获取歌手')
+      if (!response.artist) throw new Error('获取歌手失败: 歌手不存在')
+      return {
+        id: String(response.artist.id),
+        name: response.artist.name,
+        creator: response.artist.name,
+        tracks: this.parseSongs(response.hotSongs || []),
+      }
+    }, '获取歌手')
+  }
+
+  // 获取歌词（含翻译与罗马音），纯音乐或无歌词时返回 null；经 linuxapi 请求时翻译与罗马音更完整
+  async getLyric(id: string): Promise<LyricResult | null> {
+    return this.withRetry(async () => {
+      const response = await this.postApi('/api/song/lyric', {
+        id,
+        lv: -1,
+        kv: -1,
+        tv: -1,
+        rv: -1,
+      }, '获取歌词', { crypto: 'linuxapi' })
+
+      if (response.nolyric || response.uncollected || !response.lrc?.lyric) {
+        return null
+      }
+
+      return {
+        lrc: response.lrc.lyric,
+        tlyric: response.tlyric?.lyric || '',
+        romalrc: response.romalrc?.lyric || '',
+      }
+    }, '获取歌词')
+  }
+
+  // 获取副歌（高潮）片段的起止时间，没有副歌信息时返回 null
+  async getChorus(id: string): Promise<TimeRange | null> {
+    return this.withRetry(async () => {
+      const response = await this.postApi('/api/song/chorus', {
+        ids: `[${id}]`,
+      }, '获取副歌', { crypto: 'eapi' })
+
+      const chorus = response.chorus?.find((item: any) => String(item.id) === id) ?? response.chorus?.[0]
+      if (!chorus || !(chorus.endTime > chorus.startTime)) return null
+      return { start: chorus.startTime, end: chorus.endTime }
+    }, '获取副歌')
+  }
+
+  // 创建扫码登录的 unikey
+  async createLoginQrKey(): Promise<string> {
+    const response = await this.postApi('/api/login/qrcode/unikey', {
+      type: 1,
+    }, '获取登录二维码')
+    if (!response.unikey) throw new Error('获取登录二维码失败: 缺少 unikey')
+    return response.unikey
+  }
+
+  // 扫码登录二维码内容
+  getLoginQrUrl(unikey: string): string {
+    return `https://music.163.com/login?codekey=${encodeURIComponent(unikey)}`
+  }
+
+  // 查询扫码状态，登录成功时响应中的 Cookie 会被全部保存
+  async checkLoginQr(unikey: string): Promise<QrLoginStatus> {
+    const response = await this.postApi('/api/login/qrcode/client/login', {
+      key: unikey,
+      type: 1,
+    }, '查询扫码状态', { codes: [800, 801, 802, 803], allCookies: true })
+    return { code: response.code, nickname: response.nickname }
+  }
+
+  // 是否配置了登录 Cookie
+  hasLoginCookie(): boolean {
+    return !!this.cookieStore['MUSIC_U']
+  }
+
+  // 查询当前 Cookie 对应的账号状态，VIP 信息接口需要有效的 __csrf
+  async getAccountStatus(): Promise<AccountStatus> {
+    const account = await this.withRetry(
+      () => this.postApi('/api/w/nuser/account/get', {}, '获取账号信息'),
+      '获取账号信息',
+    )
+
+    const profile = account.profile
+    if (!profile) return { loggedIn: false, vipType: 0 }
+
+    const status: AccountStatus = {
+      loggedIn: true,
+      nickname: profile.nickname,
+      userId: String(profile.userId),
+      vipType: profile.vipType || account.account?.vipType || 0,
+    }
+
+    if (!this.cookieStore['__csrf']) return status
+
     try {
-      const response = await this.http.get(url, {
-        responseType: 'arraybuffer',
-        timeout: 60000
+      const vip = await this.postApi('/api/music-vip-membership/client/vip/info', {}, '获取VIP信息')
+      const expireTimes = [vip.data?.associator?.expireTime, vip.data?.musicPackage?.expireTime]
+        .filter((t: any) => typeof t === 'number' && t > 0)
+      if (expireTimes.length) status.vipExpireTime = Math.max(...expireTimes)
+      status.csrfValid = true
+    } catch (e) {
+      this.ctx.logger('ncm').debug('VIP 信息查询失败，__csrf 可能已失效:', (e as Error).message)
+      status.csrfValid = false
+    }
+
+    return status
+  }
+
+  // 解析分享短链接，返回重定向后的真实地址
+  async resolveShortLink(url: string): Promise<string | undefined> {
+    return this.withRetry(async () => {
+      const response = await this.http('GET', url, {
+        redirect: 'manual',
+        validateStatus: () => true,
       })
+      return response.headers.get('location') || response.url || undefined
+    }, '解析短链接')
+  }
 
-      await fs.mkdir(path.dirname(savePath), { recursive: true })
-      await fs.writeFile(savePath, Buffer.from(response))
+  // 下载歌曲：流式写入临时文件，校验大小与 MD5 后再重命名到目标路径
+  async downloadSong(url: string, savePath: string, check: DownloadCheck = {}): Promise<void> {
+    const tempPath = `${savePath}.part`
+    await fs.mkdir(path.dirname(savePath), { recursive: true })
+
+    try {
+      await this.withRetry(async () => {
+        try {
+          const stream: ReadableStream<Uint8Array> = await this.http.get(url, {
+            responseType: 'stream',
+            timeout: 60000
+          })
+
+          const hash = crypto.createHash('md5')
+          let size = 0
+          const digest = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+              hash.update(chunk)
+              size += chunk.length
+              callback(null, chunk)
+            },
+          })
+          await pipeline(Readable.fromWeb(stream), digest, createWriteStream(tempPath))
+
+          if (check.size && size !== check.size) {
+            throw new Error(`文件大小不匹配: 期望 ${check.size}，实际 ${size}`)
+          }
+          const md5 = hash.digest('hex')
+          if (check.md5 && md5.toLowerCase() !== check.md5.toLowerCase()) {
+            throw new Error(`MD5 校验失败: 期望 ${check.md5}，实际 ${md5}`)
+          }
+
+          await fs.rename(tempPath, savePath)
+        } catch (error) {
+          await fs.unlink(tempPath).catch(() => { })
+          throw error
+        }
+      }, '下载歌曲')
     } catch (error) {
       this.ctx.logger('ncm').error('下载失败:', error)
       throw error
     }
   }
 
+  // 下载专辑封面，按文件头判断图片格式
+  async downloadCover(url: string, size: number = 500): Promise<{ data: Buffer; mime: string }> {
+    const response = await this.http.get(`${url}?param=${size}y${size}`, {
+      responseType: 'arraybuffer',
+      timeout: 30000
+    })
+    const data = Buffer.from(response)
+    const isPng = data.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]))
+    return { data, mime: isPng ? 'image/png' : 'image/jpeg' }
+  }
+
   // 格式化时长
   formatDuration(ms: number): string {
     const seconds = Math.floor(ms / 1000)
@@ -0,0 +1,215 @@
+import * as fs from 'fs/promises'
+import { createReadStream, createWriteStream } from 'fs'
+import { pipeline } from 'stream/promises'
+
+export interface AudioTags {
+  title: string
+  artist: string
+  album?: string
+  trackNumber?: number
+  year?: number
+  cover?: { data: Buffer; mime: string }
+  lyrics?: string
+}
+
+/**
+ * 写入 ID3v2.3（MP3）或 Vorbis Comment（FLAC）标签，格式不支持时返回 false。
+ * 只读取文件头部的标签与元数据块，新标签写入临时文件后再流式追加原有的音频数据，不会把整个文件读入内存。
+ */
+export async function writeTags(filePath: string, tags: AudioTags): Promise<boolean> {
+  let header: Buffer
+  let audioOffset: number
+  const handle = await fs.open(filePath, 'r')
+  try {
+    const tagLength = id3Length(await readAt(handle, 0, 10))
+    const magic = await readAt(handle, tagLength, 4)
+    if (magic.toString('latin1') === 'fLaC') {
+      const { blocks, end } = await readFlacBlocks(handle, tagLength)
+      header = buildFlacHeader(blocks, tags)
+      audioOffset = end
+    } else if (isMpegFrame(magic)) {
+      header = buildId3(tags)
+      audioOffset = tagLength
+    } else {
+      return false
+    }
+  } finally {
+    await handle.close()
+  }
+
+  const tempPath = `${filePath}.tag`
+  try {
+    await fs.writeFile(tempPath, header)
+    await pipeline(createReadStream(filePath, { start: audioOffset }), createWriteStream(tempPath, { flags: 'a' }))
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => { })
+    throw error
+  }
+  return true
+}
+
+/** 从指定位置读取至多 length 字节，文件不足时返回实际读到的部分 */
+async function readAt(handle: fs.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length)
+  const { bytesRead } = await handle.read(buffer, 0, length, position)
+  return buffer.subarray(0, bytesRead)
+}
+
+// --- ID3v2 ---
+
+/** 文件开头已有 ID3v2 标签的总长度，没有时为 0 */
+function id3Length(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.subarray(0, 3).toString('latin1') !== 'ID3') return 0
+  const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9]
+  const footer = buffer[5] & 0x10 ? 10 : 0
+  return 10 + size + footer
+}
+
+function isMpegFrame(buffer: Buffer): boolean {
+  return buffer.length > 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0
+}
+
+function syncsafe(size: number): Buffer {
+  return Buffer.from([(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f])
+}
+
+/** UTF-16 带 BOM 的字符串，ID3v2.3 中编码标记为 1 */
+function utf16(text: string, terminate = false): Buffer {
+  const parts = [Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')]
+  if (terminate) parts.push(Buffer.alloc(2))
+  return Buffer.concat(parts)
+}
+
+function id3Frame(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(10)
+  header.write(id, 0, 'latin1')
+  header.writeUInt32BE(body.length, 4)
+  return Buffer.concat([header, body])
+}
+
+function id3Text(id: string, text: string): Buffer {
+  return id3Frame(id, Buffer.concat([Buffer.from([1]), utf16(text)]))
+}
+
+function buildId3(tags: AudioTags): Buffer {
+  const frames = [
+    id3Text('TIT2', tags.title),
+    id3Text('TPE1', tags.artist),
+  ]
+  if (tags.album) frames.push(id3Text('TALB', tags.album))
+  if (tags.trackNumber) frames.push(id3Text('TRCK', String(tags.trackNumber)))
+  if (tags.year) frames.push(id3Text('TYER', String(tags.year)))
+  if (tags.cover) {
+    // 编码 0 + MIME + 图片类型 3（封面）+ 空描述 + 图片数据
+    frames.push(id3Frame('APIC', Buffer.concat([
+      Buffer.from([0]),
+      Buffer.from(`${tags.cover.mime}\0`, 'latin1'),
+      Buffer.from([3, 0]),
+      tags.cover.data,
+    ])))
+  }
+  if (tags.lyrics) {
+    frames.push(id3Frame('USLT', Buffer.concat([
+      Buffer.from([1]),
+      Buffer.from('und', 'latin1'),
+      utf16('', true),
+      utf16(tags.lyrics),
+    ])))
+  }
+
+  const body = Buffer.concat(frames)
+  const header = Buffer.concat([Buffer.from('ID3', 'latin1'), Buffer.from([3, 0, 0]), syncsafe(body.length)])
+  return Buffer.concat([header, body])
+}
+
+// --- FLAC ---
+
+const FLAC_PADDING = 1
+const FLAC_VORBIS_COMMENT = 4
+const FLAC_PICTURE = 6
+
+interface FlacBlock {
+  type: number
+  data: Buffer
+}
+
+/**
+ * 读取 start 处 FLAC 流的元数据块，跳过将被替换的 VORBIS_COMMENT、PICTURE 与 PADDING 块（不读取其内容），
+ * 返回保留的块与音频帧的起始位置。
+ */
+async function readFlacBlocks(handle: fs.FileHandle, start: number): Promise<{ blocks: FlacBlock[]; end: number }> {
+  const blocks: FlacBlock[] = []
+  let offset = start + 4
+  let last = false
+  while (!last) {
+    const header = await readAt(handle, offset, 4)
+    if (header.length < 4) throw new Error('FLAC 元数据块不完整')
+    last = (header[0] & 0x80) !== 0
+    const type = header[0] & 0x7f
+    const length = header.readUIntBE(1, 3)
+    if (type !== FLAC_VORBIS_COMMENT && type !== FLAC_PICTURE && type !== FLAC_PADDING) {
+      const data = await readAt(handle, offset + 4, length)
+      if (data.length < length) throw new Error('FLAC 元数据块不完整')
+      blocks.push({ type, data })
+    }
+    offset += 4 + length
+  }
+  return { blocks, end: offset }
+}
+
+/** 由保留的元数据块与新的 VORBIS_COMMENT、PICTURE 块组成新的 FLAC 文件头 */
+function buildFlacHeader(kept: FlacBlock[], tags: AudioTags): Buffer {
+  const blocks = [...kept, { type: FLAC_VORBIS_COMMENT, data: vorbisComment(tags) }]
+  if (tags.cover) blocks.push({ type: FLAC_PICTURE, data: flacPicture(tags.cover) })
+
+  const encoded = blocks.map((block, index) => {
+    const header = Buffer.alloc(4)
+    header[0] = block.type | (index === blocks.length - 1 ? 0x80 : 0)
+    header.writeUIntBE(block.data.length, 1, 3)
+    return Buffer.concat([header, block.data])
+  })
+  return Buffer.concat([Buffer.from('fLaC', 'latin1'), ...encoded])
+}
+
+function vorbisComment(tags: AudioTags): Buffer {
+  const comments = [`TITLE=${tags.title}`, `ARTIST=${tags.artist}`]
+  if (tags.album) comments.push(`ALBUM=${tags.album}`)
+  if (tags.trackNumber) comments.push(`TRACKNUMBER=${tags.trackNumber}`)
+  if (tags.year) comments.push(`DATE=${tags.year}`)
+  if (tags.lyrics) comments.push(`LYRICS=${tags.lyrics}`)
+
+  const vendor = Buffer.from('koishi-plugin-music-player-ncm', 'utf8')
+  const parts: Buffer[] = [uint32LE(vendor.length), vendor, uint32LE(comments.length)]
+  for (const comment of comments) {
+    const data = Buffer.from(comment, 'utf8')
+    parts.push(uint32LE(data.length), data)
+  }
+  return Buffer.concat(parts)
+}
+
+function flacPicture(cover: { data: Buffer; mime: string }): Buffer {
+  const mime = Buffer.from(cover.mime, 'latin1')
+  const fields = Buffer.alloc(16) // 宽、高、色深、索引色数，未知时填 0
+  return Buffer.concat([
+    uint32BE(3), // 图片类型：封面
+    uint32BE(mime.length),
+    mime,
+    uint32BE(0), // 空描述
+    fields,
+    uint32BE(cover.data.length),
+    cover.data,
+  ])
+}
+
+function uint32LE(value: number): Buffer {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32LE(value)
+  return buffer
+}
+
+function uint32BE(value: number): Buffer {
+  const buffer = Buffer.alloc(4)
+  buffer.writeUInt32BE(value)
+  return buffer
+}
@@ -0,0 +1,57 @@
+/**
+ * 语音消息编码：
+ * - opus：Ogg 封装的 Opus，Telegram、Discord 等平台的原生语音格式
+ * - silk：QQ 语音格式，由 ffmpeg 解码为 PCM 后交给 silk 服务编码
+ * - amr：AMR-NB，没有 silk 服务时 QQ 平台的替代格式
+ * - none：不转码，直接发送原文件
+ */
+export type VoiceCodec = 'opus' | 'silk' | 'amr' | 'none'
+
+export const VOICE_EXTENSIONS: Record<Exclude<VoiceCodec, 'none'>, string> = {
+  opus: 'ogg',
+  silk: 'silk',
+  amr: 'amr',
+}
+
+/** silk 编码使用的 PCM 采样率 */
+export const SILK_SAMPLE_RATE = 24000
+
+/** Opus 语音的默认码率与按大小上限降低时的最低码率 (kbps) */
+const OPUS_BITRATE = 64
+const OPUS_MIN_BITRATE = 16
+
+export interface VoiceLimits {
+  /** 最长时长（秒），0 为不限 */
+  maxDuration: number
+  /** 文件大小上限（字节），0 为不限 */
+  maxSize: number
+  /** 源音频时长（秒），未知时为 undefined */
+  duration?: number
+}
+
+/**
+ * 生成语音编码的 ffmpeg 输出参数。超出时长上限的部分被截断；
+ * Opus 按大小上限与时长估算码率，silk 输出的是交给 silk 服务的 PCM 数据。
+ */
+export function getVoiceArgs(codec: Exclude<VoiceCodec, 'none'>, limits: VoiceLimits): string[] {
+  const duration = limits.maxDuration && limits.duration
+    ? Math.min(limits.duration, limits.maxDuration)
+    : limits.duration || limits.maxDuration
+  const args = limits.maxDuration ? ['-t', String(limits.maxDuration)] : []
+
+  switch (codec) {
+    case 'opus': {
+      let bitrate = OPUS_BITRATE
+      if (limits.maxSize && duration) {
+        // 预留 5% 给 Ogg 封装开销
+        const fit = Math.floor(limits.maxSize * 8 * 0.95 / 1000 / duration)
+        bitrate = Math.max(OPUS_MIN_BITRATE, Math.min(OPUS_BITRATE, fit))
+      }
+      return [...args, '-vn', '-c:a', 'libopus', '-b:a', `${bitrate}k`, '-ar', '48000', '-ac', '1', '-f', 'ogg']
+    }
+    case 'amr':
+      return [...args, '-vn', '-c:a', 'libopencore_amrnb', '-b:a', '12.2k', '-ar', '8000', '-ac', '1', '-f', 'amr']
+    case 'silk':
+      return [...args, '-vn', '-f', 's16le', '-ar', String(SILK_SAMPLE_RATE), '-ac', '1']
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { parseArgs, parseSelection, parseTimeRange } from '../src/args'
+
+describe('parseArgs', () => {
+  it('keeps quoted keywords intact', () => {
+    assert.deepEqual(parseArgs('"-z 晴天" -a'), { keyword: '-z 晴天', options: { audio: true } })
+    assert.deepEqual(parseArgs('“七里香” ‘周杰伦’'), { keyword: '七里香 周杰伦', options: {} })
+  })
+
+  it('treats an unclosed quote as part of the keyword', () => {
+    assert.deepEqual(parseArgs('"晴天 -f'), { keyword: '"晴天', options: { file: true } })
+  })
+
+  it('parses combined flags', () => {
+    assert.deepEqual(parseArgs('晴天 -zf'), { keyword: '晴天', options: { compress: true, file: true } })
+    assert.deepEqual(parseArgs('-fq lossless 晴天'), { keyword: '晴天', options: { file: true, quality: 'lossless' } })
+  })
+
+  it('parses flags with values in order', () => {
+    assert.deepEqual(parseArgs('晴天 -e nightcore'), { keyword: '晴天', options: { effect: 'nightcore' } })
+    assert.deepEqual(parseArgs('-zqe lossless 8d 晴天'), { keyword: '晴天', options: { compress: true, quality: 'lossless', effect: '8d' } })
+    assert.deepEqual(parseArgs('晴天 -qe lossless'), { keyword: '晴天 -qe lossless', options: {} })
+  })
+
+  it('folds unknown flags into the keyword', () => {
+    assert.deepEqual(parseArgs('-x 晴天'), { keyword: '-x 晴天', options: {} })
+    assert.deepEqual(parseArgs('晴天 -ax'), { keyword: '晴天 -ax', options: {} })
+    assert.deepEqual(parseArgs('晴天 -q'), { keyword: '晴天 -q', options: {} })
+  })
+
+  it('parses clip options', () => {
+    assert.deepEqual(parseArgs('晴天 --clip 1:00-1:30'), { keyword: '晴天', options: { clip: '1:00-1:30' } })
+    assert.deepEqual(parseArgs('--chorus -a 晴天'), { keyword: '晴天', options: { chorus: true, audio: true } })
+    assert.deepEqual(parseArgs('晴天 --clip'), { keyword: '晴天 --clip', options: {} })
+  })
+
+  it('parses search type options', () => {
+    assert.deepEqual(parseArgs('--artist 周杰伦'), { keyword: '周杰伦', options: { artist: true } })
+    assert.deepEqual(parseArgs('--singer 周杰伦'), { keyword: '--singer 周杰伦', options: {} })
+  })
+})
+
+describe('parseSelection', () => {
+  it('parses lists and ranges', () => {
+    assert.deepEqual(parseSelection('1 3，2-4', 5), [0, 2, 1, 3])
+  })
+
+  it('rejects out-of-range or malformed input', () => {
+    assert.equal(parseSelection('6', 5), undefined)
+    assert.equal(parseSelection('3-1', 5), undefined)
+    assert.equal(parseSelection('1 n', 5), undefined)
+  })
+
+  it('limits the number of picks', () => {
+    assert.equal(parseSelection('1-30', 30)?.length, 10)
+  })
+})
+
+describe('parseTimeRange', () => {
+  it('parses seconds and clock times', () => {
+    assert.deepEqual(parseTimeRange('1:00-1:30'), { start: 60000, end: 90000 })
+    assert.deepEqual(parseTimeRange('12.5 ~ 20'), { start: 12500, end: 20000 })
+    assert.deepEqual(parseTimeRange('1:02:03-1:02:04'), { start: 3723000, end: 3724000 })
+  })
+
+  it('rejects malformed or empty ranges', () => {
+    assert.equal(parseTimeRange('1:30-1:00'), undefined)
+    assert.equal(parseTimeRange('1:60-2:00'), undefined)
+    assert.equal(parseTimeRange('1:00'), undefined)
+    assert.equal(parseTimeRange('a-b'), undefined)
+  })
+})
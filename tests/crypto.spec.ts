@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as crypto from 'crypto'
+import { encryptRequest } from '../src/crypto'
+import { FAKE_SECRET_KEY, decryptEapi, decryptWeapi } from './fake-server'
+
+describe('encryptRequest', () => {
+  const params = { ids: '[186016]', level: 'lossless' }
+
+  it('encrypts weapi requests', () => {
+    const { endpoint, body } = encryptRequest('weapi', '/api/song/detail', params, FAKE_SECRET_KEY)
+    assert.equal(endpoint, '/weapi/song/detail')
+    assert.deepEqual(decryptWeapi(body), params)
+  })
+
+  it('encrypts eapi requests with a digest of the api path', () => {
+    const { endpoint, body } = encryptRequest('eapi', '/api/song/enhance/player/url/v1', params)
+    assert.equal(endpoint, '/eapi/song/enhance/player/url/v1')
+    assert.deepEqual(decryptEapi(body, endpoint), params)
+    assert.throws(() => decryptEapi(body, '/eapi/song/lyric'), /接口路径不符/)
+  })
+
+  it('wraps linuxapi requests in a forward call', () => {
+    const { endpoint, body } = encryptRequest('linuxapi', '/api/song/lyric', params)
+    assert.equal(endpoint, '/api/linux/forward')
+    const eparams = new URLSearchParams(body).get('eparams') || ''
+    const decipher = crypto.createDecipheriv('aes-128-ecb', 'rFgB&h#%2?^eDg:Q', null)
+    const text = decipher.update(eparams, 'hex', 'utf8') + decipher.final('utf8')
+    assert.deepEqual(JSON.parse(text), { method: 'POST', url: 'https://music.163.com/api/song/lyric', params })
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { BUILTIN_EFFECTS, getVariantQuality, resolveEffects } from '../src/effect'
+
+describe('resolveEffects', () => {
+  it('merges custom presets over the built-in ones', () => {
+    const effects = resolveEffects({ Nightcore: 'atempo=1.3', mono: ' pan=mono|c0=c0 ' })
+    assert.equal(effects.get('nightcore'), 'atempo=1.3')
+    assert.equal(effects.get('mono'), 'pan=mono|c0=c0')
+    assert.equal(effects.get('reverb'), BUILTIN_EFFECTS.reverb)
+  })
+
+  it('ignores invalid names and empty filters', () => {
+    const effects = resolveEffects({ '../x': 'volume=2', 'a b': 'volume=2', empty: ' ' })
+    assert.deepEqual([...effects.keys()], Object.keys(BUILTIN_EFFECTS))
+  })
+
+  it('does not treat prototype properties as presets', () => {
+    const effects = resolveEffects()
+    assert.equal(effects.has('constructor'), false)
+    assert.equal(effects.has('__proto__'), false)
+  })
+})
+
+describe('getVariantQuality', () => {
+  it('appends the effect and compression to the quality', () => {
+    assert.equal(getVariantQuality('exhigh', 'nightcore'), 'exhigh+nightcore')
+    assert.equal(getVariantQuality('exhigh', undefined, true), 'exhigh+compress')
+    assert.equal(getVariantQuality('lossless', '8d', true), 'lossless+8d+compress')
+  })
+})
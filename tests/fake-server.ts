@@ -0,0 +1,270 @@
+import * as crypto from 'crypto'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+
+/** 测试中通过 NcmService 的 secretKey 选项固定的二次加密密钥，模拟服务据此解密 WEAPI 请求 */
+export const FAKE_SECRET_KEY = 'koishiNcmTestKey'
+
+const PRESET_KEY = '0CoJUm6Qyw8W8jud'
+const EAPI_KEY = 'e82ckenh8dichen8'
+const LINUXAPI_KEY = 'rFgB&h#%2?^eDg:Q'
+const IV = '0102030405060708'
+const MODULUS = BigInt('0x00e0b509f6259df8642dbc35662901477df22677ec152b5ff68ace615bb7b725152b3ab17a876aea8a5aa76d2e417629ec4ee341f56135fccf695280104e0312ecbda92557c93870114af6c9d05c4f7f0c3685b7a46bee255932575cce10b424d813cfe4875d3e82047b97ddef52741d546b8e289dc6935b3ece0462db0a22b8e7')
+const EXPONENT = BigInt(0x010001)
+
+export interface FakeSong {
+  id: number
+  name: string
+  artist: string
+  album: string
+  duration: number
+  /** 音频文件大小（字节） */
+  size: number
+  /** 只提供 30 秒试听片段 */
+  trial?: boolean
+  /** 副歌起止时间（毫秒） */
+  chorus?: [number, number]
+  /** LRC 歌词原文与翻译 */
+  lyric?: [string, string]
+}
+
+export interface FakeRequest {
+  path: string
+  params: Record<string, any>
+  headers: http.IncomingHttpHeaders
+  time: number
+}
+
+/** 生成以 MPEG 帧头开头的假音频，内容由歌曲ID决定 */
+export function fakeAudio(song: FakeSong): Buffer {
+  const data = Buffer.alloc(song.size, song.id % 251)
+  data.set([0xff, 0xfb, 0x90, 0x00])
+  return data
+}
+
+/** 与 NcmService 相同的 RSA 运算，用于校验请求中的 encSecKey */
+function rsaEncrypt(text: string): string {
+  const reversed = text.split('').reverse().join('')
+  let base = BigInt('0x' + Buffer.from(reversed).toString('hex')) % MODULUS
+  let exp = EXPONENT
+  let result = BigInt(1)
+  while (exp > 0) {
+    if (exp & BigInt(1)) result = (result * base) % MODULUS
+    exp >>= BigInt(1)
+    base = (base * base) % MODULUS
+  }
+  return result.toString(16).padStart(256, '0')
+}
+
+function aesDecrypt(text: string, key: string): string {
+  const decipher = crypto.createDecipheriv('aes-128-cbc', key, IV)
+  return decipher.update(text, 'base64', 'utf8') + decipher.final('utf8')
+}
+
+/** 解密 WEAPI 表单：params 先以随机密钥、再以预置密钥解密 */
+export function decryptWeapi(body: string): Record<string, any> {
+  const form = new URLSearchParams(body)
+  const params = form.get('params')
+  const encSecKey = form.get('encSecKey')
+  if (!params || !encSecKey) throw new Error('缺少 params 或 encSecKey')
+  if (encSecKey !== rsaEncrypt(FAKE_SECRET_KEY)) throw new Error('encSecKey 与测试密钥不符')
+  return JSON.parse(aesDecrypt(aesDecrypt(params, FAKE_SECRET_KEY), PRESET_KEY))
+}
+
+/** 解密 EAPI 表单，校验其中的接口路径与 MD5 摘要 */
+export function decryptEapi(body: string, pathname: string): Record<string, any> {
+  const params = new URLSearchParams(body).get('params')
+  if (!params) throw new Error('缺少 params')
+  const decipher = crypto.createDecipheriv('aes-128-ecb', EAPI_KEY, null)
+  const data = decipher.update(params, 'hex', 'utf8') + decipher.final('utf8')
+  const [path, text, digest] = data.split('-36cd479b6b5-')
+  if (path !== pathname.replace(/^\/eapi\//, '/api/')) throw new Error(`接口路径不符: ${path}`)
+  if (digest !== crypto.createHash('md5').update(`nobody${path}use${text}md5forencrypt`).digest('hex')) {
+    throw new Error('摘要校验失败')
+  }
+  return JSON.parse(text)
+}
+
+/** 解密 linuxapi 转发请求，返回被转发的接口路径与参数 */
+export function decryptLinuxapi(body: string): { path: string; params: Record<string, any> } {
+  const eparams = new URLSearchParams(body).get('eparams')
+  if (!eparams) throw new Error('缺少 eparams')
+  const decipher = crypto.createDecipheriv('aes-128-ecb', LINUXAPI_KEY, null)
+  const { method, url, params } = JSON.parse(decipher.update(eparams, 'hex', 'utf8') + decipher.final('utf8'))
+  if (method !== 'POST') throw new Error(`不支持的请求方法: ${method}`)
+  return { path: new URL(url).pathname, params }
+}
+
+/**
+ * 本地网易云接口模拟服务：解密 WEAPI / EAPI / linuxapi 请求并返回预置的搜索、URL、详情与音频数据。
+ * failures 中的路径会按次数返回错误码，用于测试降级与重试。
+ */
+export class FakeNcmServer {
+  readonly requests: FakeRequest[] = []
+  readonly failures = new Map<string, number>()
+  /** 音频响应的延迟（ms），用于模拟慢速下载 */
+  audioDelay = 0
+  private server = http.createServer((req, res) => this.handle(req, res))
+
+  constructor(public songs: FakeSong[]) { }
+
+  get url() {
+    const { port } = this.server.address() as AddressInfo
+    return `http://127.0.0.1:${port}`
+  }
+
+  async start() {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve))
+  }
+
+  async close() {
+    this.server.closeAllConnections()
+    await new Promise<void>(resolve => this.server.close(() => resolve()))
+  }
+
+  /** 指定路径接下来的 count 次请求返回错误 */
+  fail(path: string, count: number) {
+    this.failures.set(path, count)
+  }
+
+  requestsTo(path: string) {
+    return this.requests.filter(request => request.path === path)
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    let { pathname } = new URL(req.url || '/', 'http://localhost')
+    const audio = /^\/audio\/(\d+)\.mp3$/.exec(pathname)
+    if (req.method === 'GET' && audio) {
+      const song = this.songs.find(song => song.id === Number(audio[1]))
+      if (!song) return this.send(res, 404, { code: 404 })
+      this.requests.push({ path: pathname, params: {}, headers: req.headers, time: Date.now() })
+      if (this.audioDelay) await new Promise(resolve => setTimeout(resolve, this.audioDelay))
+      res.writeHead(200, { 'Content-Type': 'audio/mpeg' })
+      return res.end(fakeAudio(song))
+    }
+
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk)
+    let params: Record<string, any>
+    try {
+      const body = Buffer.concat(chunks).toString()
+      if (pathname === '/api/linux/forward') {
+        // linuxapi 请求按被转发的接口路径记录与处理
+        ({ path: pathname, params } = decryptLinuxapi(body))
+      } else {
+        params = pathname.startsWith('/eapi/') ? decryptEapi(body, pathname) : decryptWeapi(body)
+      }
+    } catch (error) {
+      return this.send(res, 400, { code: 400, message: (error as Error).message })
+    }
+    this.requests.push({ path: pathname, params, headers: req.headers, time: Date.now() })
+
+    const remaining = this.failures.get(pathname)
+    if (remaining) {
+      this.failures.set(pathname, remaining - 1)
+      return this.send(res, 200, { code: 503, message: '模拟服务故障' })
+    }
+
+    const body = this.route(pathname, params)
+    if (!body) return this.send(res, 404, { code: 404, message: `未知接口 ${pathname}` })
+    this.send(res, 200, body)
+  }
+
+  private route(pathname: string, params: Record<string, any>): any {
+    switch (pathname) {
+      case '/weapi/cloudsearch/pc': {
+        const songs = this.match(params.s)
+        return {
+          code: 200,
+          result: {
+            songs: songs.slice(params.offset, params.offset + params.limit).map(song => this.toTrack(song)),
+            songCount: songs.length,
+          },
+        }
+      }
+      case '/weapi/search/get': {
+        // 旧版搜索使用 artists / album / duration 字段
+        const songs = this.match(params.s)
+        return {
+          code: 200,
+          result: {
+            songs: songs.slice(params.offset, params.offset + params.limit).map(song => ({
+              id: song.id,
+              name: song.name,
+              artists: [{ name: song.artist }],
+              album: { name: song.album },
+              duration: song.duration,
+              fee: 0,
+            })),
+            songCount: songs.length,
+          },
+        }
+      }
+      case '/eapi/song/enhance/player/url/v1': {
+        // 模拟服务只提供 MP3，更高档位自动降级为 exhigh
+        const ids: number[] = JSON.parse(params.ids)
+        return {
+          code: 200,
+          data: ids.map(id => {
+            const song = this.songs.find(song => song.id === id)
+            if (!song) return { id, url: null }
+            const length = song.trial ? 30000 : song.duration
+            return {
+              id,
+              url: `${this.url}/audio/${id}.mp3`,
+              // 假音频很小，码率按大小与时长反推，保证按码率估算的时长与歌曲一致
+              br: Math.round(song.size * 8000 / length),
+              size: song.size,
+              md5: crypto.createHash('md5').update(fakeAudio(song)).digest('hex'),
+              type: 'mp3',
+              level: ['standard', 'higher'].includes(params.level) ? params.level : 'exhigh',
+              time: length,
+              freeTrialInfo: song.trial ? { start: 0, end: 30 } : null,
+            }
+          }),
+        }
+      }
+      case '/eapi/song/chorus': {
+        const ids: number[] = JSON.parse(params.ids)
+        return {
+          code: 200,
+          chorus: this.songs
+            .filter(song => ids.includes(song.id) && song.chorus)
+            .map(song => ({ id: song.id, startTime: song.chorus![0], endTime: song.chorus![1] })),
+        }
+      }
+      case '/api/song/lyric': {
+        const song = this.songs.find(song => song.id === Number(params.id))
+        if (!song?.lyric) return { code: 200, nolyric: true }
+        return { code: 200, lrc: { lyric: song.lyric[0] }, tlyric: { lyric: song.lyric[1] } }
+      }
+      case '/weapi/v3/song/detail': {
+        const ids: number[] = JSON.parse(params.c).map((item: { id: string }) => Number(item.id))
+        return {
+          code: 200,
+          songs: this.songs.filter(song => ids.includes(song.id)).map(song => this.toTrack(song)),
+        }
+      }
+    }
+  }
+
+  private match(keyword: string) {
+    return this.songs.filter(song => song.name.includes(keyword) || song.artist.includes(keyword))
+  }
+
+  private toTrack(song: FakeSong) {
+    return {
+      id: song.id,
+      name: song.name,
+      ar: [{ name: song.artist }],
+      al: { name: song.album },
+      dt: song.duration,
+      fee: 0,
+    }
+  }
+
+  private send(res: http.ServerResponse, status: number, body: any) {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+}
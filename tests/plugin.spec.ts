@@ -0,0 +1,439 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { App, Context, HTTP } from 'koishi'
+import mock from '@koishijs/plugin-mock'
+import memory from '@koishijs/plugin-database-memory'
+import * as ncm from '../src'
+import { BUILTIN_EFFECTS } from '../src/effect'
+import { FAKE_SECRET_KEY, FakeNcmServer, fakeAudio } from './fake-server'
+import { MusicCache } from '../src/database'
+
+/** 模拟 ffmpeg 服务：记录输出参数，并把输入文件原样复制到输出路径 */
+class FakeFFmpeg {
+  readonly runs: string[][] = []
+  readonly inputs: string[][] = []
+
+  builder() {
+    let input = ''
+    const inputArgs: string[] = []
+    const args: string[] = []
+    const builder = {
+      input: (path: string) => (input = path, builder),
+      inputOption: (...option: string[]) => (inputArgs.push(...option), builder),
+      outputOption: (...option: string[]) => (args.push(...option), builder),
+      run: async (type: 'file' | 'buffer', output?: string) => {
+        this.runs.push(args)
+        this.inputs.push(inputArgs)
+        if (type === 'buffer') return fs.readFile(input)
+        await fs.copyFile(input, output!)
+      },
+    }
+    return builder
+  }
+}
+
+/** 模拟 silk 服务：在 PCM 数据前加上 SILK 文件头 */
+class FakeSilk {
+  calls = 0
+  fail = false
+
+  async encode(input: Uint8Array, _sampleRate: number) {
+    this.calls++
+    if (this.fail) throw new Error('模拟编码失败')
+    return { data: Buffer.concat([Buffer.from('#!SILK_V3'), input]), duration: 0 }
+  }
+}
+
+/** 以固定的 weapi 密钥加载插件，模拟服务据此解密请求 */
+const plugin = {
+  name: ncm.name,
+  inject: ncm.inject,
+  Config: ncm.Config,
+  apply: (ctx: Context, config: ncm.Config) => ncm.apply(ctx, config, { secretKey: FAKE_SECRET_KEY }),
+}
+
+/** 每个用例使用独立的应用、数据库与缓存目录 */
+async function startApp(config: Partial<ncm.Config>, services: { ffmpeg?: FakeFFmpeg; silk?: FakeSilk } = {}) {
+  const cachePath = await fs.mkdtemp(path.join(os.tmpdir(), 'ncm-test-'))
+  const app = new App()
+  app.plugin(mock, { selfId: '514' })
+  app.plugin(HTTP)
+  app.plugin(memory)
+  if (services.ffmpeg) app.set('ffmpeg', services.ffmpeg)
+  if (services.silk) app.set('silk', services.silk)
+  const options: Partial<ncm.Config> = {
+    cachePath,
+    rateLimitEnabled: false,
+    accountCheckInterval: 0,
+    ...config,
+  }
+  let fork = app.plugin(plugin, options)
+  await app.start()
+  await app.mock.initUser('admin', 3)
+  /** 重新加载插件，模拟升级后重启 */
+  const reload = async () => {
+    fork.dispose()
+    fork = app.plugin(plugin, options)
+    await app.lifecycle.flush()
+  }
+  return { app, cachePath, reload }
+}
+
+/** 在缓存目录中写入一首歌曲的缓存文件与记录 */
+async function seedCache(app: App, cachePath: string, item: Pick<MusicCache, 'id' | 'name'> & Partial<MusicCache>) {
+  const filePath = path.join(cachePath, `${item.id.replace(':', '_')}-exhigh.mp3`)
+  await fs.writeFile(filePath, Buffer.alloc(400))
+  await app.database.create('ncm_cache', {
+    quality: 'exhigh',
+    artist: '测试',
+    url: '',
+    cached: true,
+    cachePath: filePath,
+    fileSize: 400,
+    bitrate: 320000,
+    tagged: false,
+    ...item,
+  })
+  return filePath
+}
+
+describe('ncmget', () => {
+  const server = new FakeNcmServer([
+    { id: 186016, name: '晴天', artist: '周杰伦', album: '叶惠美', duration: 269000, size: 600 },
+    { id: 186001, name: '晴天娃娃', artist: '测试歌手', album: '测试专辑', duration: 200000, size: 600 },
+    { id: 186002, name: '试听曲', artist: '测试歌手', album: '测试专辑', duration: 240000, size: 300, trial: true },
+    { id: 185809, name: '稻香', artist: '周杰伦', album: '魔杰座', duration: 223000, size: 300 },
+    { id: 185811, name: '七里香', artist: '周杰伦', album: '七里香', duration: 299000, size: 300, chorus: [120000, 140000] },
+  ])
+  let app: App
+  let cachePath: string
+  let reload: () => Promise<void>
+  let ffmpeg: FakeFFmpeg
+
+  before(async () => {
+    await server.start()
+  })
+
+  after(async () => {
+    await server.close()
+  })
+
+  beforeEach(async () => {
+    server.requests.length = 0
+    ffmpeg = new FakeFFmpeg()
+    ;({ app, cachePath, reload } = await startApp({
+      baseUrl: server.url,
+      // 约 1KB，两首预置缓存加一首新下载的歌曲放不下
+      cacheMaxSize: 1 / 1024,
+      maxConcurrentDownloads: 1,
+    }, { ffmpeg }))
+  })
+
+  afterEach(async () => {
+    await app.stop()
+    await fs.rm(cachePath, { recursive: true, force: true })
+  })
+
+  it('searches, picks and sends a song while evicting old cache', async () => {
+    // 预置两条旧缓存，时间较早的一条应在下载前被清理
+    await seedCache(app, cachePath, { id: 'ncm:1001', name: '旧歌一', cacheTime: 1000 })
+    await seedCache(app, cachePath, { id: 'ncm:1002', name: '旧歌二', cacheTime: 2000 })
+
+    const client = app.mock.client('123')
+    const [list] = await client.receive('ncmget 晴天')
+    assert.match(list, /1\. 晴天 - 周杰伦/)
+    assert.match(list, /2\. 晴天娃娃 - 测试歌手/)
+
+    const replies = await client.receive('1')
+    const file = replies.find(reply => reply.startsWith('<file'))
+    assert.ok(file, `未发送文件: ${replies.join(' | ')}`)
+    assert.match(file, /title="周杰伦 - 晴天\.mp3"/)
+
+    const [cache] = await app.database.get('ncm_cache', { id: 'ncm:186016' })
+    assert.ok(cache?.cachePath)
+    assert.equal(cache.cached, true)
+    const data = await fs.readFile(cache.cachePath)
+    // 写入标签后音频帧保持不变
+    assert.ok(data.subarray(data.length - 600).equals(fakeAudio(server.songs[0])))
+    assert.equal(data.subarray(0, 3).toString(), 'ID3')
+
+    const [oldest] = await app.database.get('ncm_cache', { id: 'ncm:1001' })
+    assert.equal(oldest.cached, false)
+    await assert.rejects(fs.access(path.join(cachePath, 'ncm_1001-exhigh.mp3')))
+    const [newer] = await app.database.get('ncm_cache', { id: 'ncm:1002' })
+    assert.equal(newer.cached, true)
+  })
+
+  it('replies from cache on a repeated request', async () => {
+    const client = app.mock.client('456')
+    await client.receive('ncmget 稻香')
+    const before = server.requestsTo('/eapi/song/enhance/player/url/v1').length
+    const replies = await client.receive('ncmget 稻香')
+    assert.ok(replies.some(reply => reply.startsWith('<file')))
+    assert.equal(server.requestsTo('/eapi/song/enhance/player/url/v1').length, before)
+  })
+
+  it('sends trial clips with a notice without caching them', async () => {
+    const client = app.mock.client('789')
+    // 只有一个搜索结果时直接发送
+    const replies = await client.receive('ncmget 试听曲')
+    assert.ok(replies.some(reply => reply.includes('30 秒的试听片段')), replies.join(' | '))
+    assert.ok(replies.some(reply => reply.startsWith('<file')))
+
+    const caches = await app.database.get('ncm_cache', { id: 'ncm:186002' })
+    assert.equal(caches.length, 0)
+    const files = await fs.readdir(cachePath)
+    assert.ok(!files.some(file => file.includes('186002')), files.join(', '))
+  })
+
+  it('shares in-flight downloads and queues beyond the limit', async () => {
+    server.audioDelay = 100
+    const [first, second, third] = await Promise.all([
+      app.mock.client('1001').receive('ncmget 稻香'),
+      app.mock.client('1002').receive('ncmget 稻香'),
+      app.mock.client('1003').receive('ncmget 七里香'),
+    ]).finally(() => server.audioDelay = 0)
+
+    for (const replies of [first, second, third]) {
+      assert.ok(replies.some(reply => reply.startsWith('<file')), replies.join(' | '))
+    }
+    assert.equal(server.requestsTo('/audio/185809.mp3').length, 1)
+    // 两首歌各一个下载任务，后开始的一个排队
+    const queued = [first, second, third].flat().filter(reply => reply.includes('第 1 位'))
+    assert.equal(queued.length, 1)
+  })
+
+  it('migrates cache rows created before quality tiers', async () => {
+    // 区分音质之前的缓存：不带来源前缀的ID、空的音质档位与按ID命名的文件
+    const filePath = path.join(cachePath, '185809.mp3')
+    await fs.writeFile(filePath, fakeAudio(server.songs[3]))
+    await app.database.create('ncm_cache', {
+      id: '185809', quality: '', name: '稻香', artist: '周杰伦', url: '', cached: true,
+      cachePath: filePath, fileSize: 300, cacheTime: 1000, bitrate: 0,
+    })
+    await fs.writeFile(path.join(cachePath, '1006.mp3'), Buffer.alloc(100))
+    await app.database.create('ncm_cache', {
+      id: '1006', quality: '', name: '低码率', artist: '测试', url: '', cached: true,
+      cachePath: path.join(cachePath, '1006.mp3'), fileSize: 100, cacheTime: 1000, bitrate: 128000,
+    })
+    await reload()
+
+    // 码率未知时视为 exhigh
+    const rows = await app.database.get('ncm_cache', {})
+    assert.deepEqual(rows.map(row => [row.id, row.quality]).sort(), [['ncm:1006', 'standard'], ['ncm:185809', 'exhigh']])
+    const replies = await app.mock.client('2002').receive('ncmget 稻香')
+    assert.ok(replies.some(reply => reply.startsWith('<file')), replies.join(' | '))
+    assert.equal(server.requestsTo('/audio/185809.mp3').length, 0)
+  })
+
+  it('manages the cache with ncmcache and evicts the least recently used', async () => {
+    const admin = app.mock.client('admin')
+    // 写入较早但最近访问过的缓存应保留，写入较晚却从未访问的先被淘汰
+    await seedCache(app, cachePath, { id: 'ncm:1003', name: '常听', cacheTime: 1000, lastAccess: Date.now() })
+    await seedCache(app, cachePath, { id: 'ncm:1004', name: '冷门', cacheTime: 2000 })
+    await app.mock.client('2001').receive('ncmget 稻香')
+    const [kept] = await app.database.get('ncm_cache', { id: 'ncm:1003' })
+    assert.equal(kept.cached, true)
+    const [evicted] = await app.database.get('ncm_cache', { id: 'ncm:1004' })
+    assert.equal(evicted.cached, false)
+
+    const [list] = await admin.receive('ncmcache list')
+    assert.match(list, /1\. 稻香 - 周杰伦 \(ncm:185809, exhigh, [\d.]+ MB, 发送 1 次\)\n2\. 常听/)
+
+    assert.match((await admin.receive('ncmcache remove 185809'))[0], /已删除《稻香》/)
+    const [removed] = await app.database.get('ncm_cache', { id: 'ncm:185809' })
+    assert.equal(removed.cached, false)
+    await assert.rejects(fs.access(path.join(cachePath, 'ncm_185809-exhigh.mp3')))
+    assert.match((await admin.receive('ncmcache stats'))[0], /缓存歌曲 1 首/)
+
+    assert.match((await admin.receive('ncmcache prewarm 七里香')).join('\n'), /新增 1 首/)
+    assert.match((await admin.receive('ncmcache prewarm 七里香')).join('\n'), /已有缓存 1 首/)
+
+    assert.match((await admin.receive('ncmcache clear'))[0], /已删除 2 首歌曲的缓存/)
+    assert.equal((await app.database.get('ncm_cache', { cached: true })).length, 0)
+  })
+
+  it('ranks stats on the database side and prunes expired records', async () => {
+    const client = app.mock.client('5001')
+    await client.receive('ncmget 稻香')
+    const [{ channel }] = await app.database.get('ncm_stats', {})
+    const record = (songId: string, name: string, artist: string, userId: string, username: string, source: string, time = Date.now()) => ({
+      userId, username, channel, platform: 'mock', songId, name, artist, source, time,
+    })
+    await app.database.upsert('ncm_stats', [
+      record('186016', '晴天', '周杰伦', 'u1', '小明', 'cache'),
+      record('186016', '晴天', '周杰伦', 'u1', '小明', 'cache'),
+      record('1007', '合唱', '周杰伦/费玉清', 'u2', '小红', 'download'),
+      { ...record('186016', '晴天', '周杰伦', 'u3', '小刚', 'cache'), channel: 'mock:other' },
+      // 超出默认保留天数 (90)，重启时清理
+      record('185809', '稻香', '周杰伦', 'u1', '小明', 'download', Date.now() - 200 * 24 * 60 * 60 * 1000),
+    ])
+    await reload()
+    assert.equal((await app.database.get('ncm_stats', {})).length, 5)
+
+    const [reply] = await client.receive('ncmstats')
+    const lines = reply.split('\n')
+    assert.equal(lines[0], '近 7 天本频道共点歌 4 次')
+    assert.equal(lines[2], '1. 晴天 - 周杰伦 (2 次)')
+    assert.deepEqual(lines.slice(lines.indexOf('热门歌手：') + 1, lines.indexOf('热门歌手：') + 3), ['1. 周杰伦 (4 次)', '2. 费玉清 (1 次)'])
+    assert.equal(lines[lines.indexOf('点歌达人：') + 1], '1. 小明 (2 次)')
+    assert.equal(lines.at(-2), '全服：点歌 5 次，3 首歌曲，4 位用户')
+    assert.equal(lines.at(-1), '缓存命中率：60.0%（命中 3 次 / 下载 2 次）')
+  })
+
+  it('reconciles the cache directory with the database', async () => {
+    const admin = app.mock.client('admin')
+    const write = (name: string, size: number) => fs.writeFile(path.join(cachePath, name), Buffer.alloc(size))
+    // 无记录文件：可识别的歌曲被收录，查不到的删除；非缓存文件与未注册来源的文件保留
+    await write('ncm_186001-exhigh.mp3', 100)
+    await write('ncm_999999-exhigh.mp3', 100)
+    await write('unknown.bin', 10)
+    await write('other_1-exhigh.mp3', 10)
+    // 异常退出遗留的临时文件，刚修改过的可能仍在使用
+    await write('ncm_1-exhigh.mp3.part', 10)
+    await fs.utimes(path.join(cachePath, 'ncm_1-exhigh.mp3.part'), new Date(0), new Date(0))
+    await write('ncm_2-exhigh_compressed.mp3', 10)
+    // 文件丢失的记录与大小不符的记录
+    await app.database.create('ncm_cache', {
+      id: 'ncm:1005', quality: 'exhigh', name: '丢失', artist: '测试', url: '', cached: true,
+      cachePath: path.join(cachePath, 'ncm_1005-exhigh.mp3'), fileSize: 400, bitrate: 320000,
+    })
+    await seedCache(app, cachePath, { id: 'ncm:1003', name: '常听', fileSize: 999 })
+
+    const [reply] = await admin.receive('ncmcache scan')
+    assert.equal(reply, '缓存校验完成：收录 1 个文件，删除 1 个无记录文件与 1 个临时文件，重置 1 条失效记录，修正 1 条文件大小')
+
+    const files = await fs.readdir(cachePath)
+    assert.ok(files.includes('ncm_2-exhigh_compressed.mp3'))
+    assert.ok(files.includes('unknown.bin'))
+    assert.ok(files.includes('other_1-exhigh.mp3'))
+    assert.ok(!files.some(file => /999999|\.part$/.test(file)), files.join(', '))
+    const [adopted] = await app.database.get('ncm_cache', { id: 'ncm:186001' })
+    assert.equal(adopted.name, '晴天娃娃')
+    assert.equal(adopted.fileSize, 100)
+    const [lost] = await app.database.get('ncm_cache', { id: 'ncm:1005' })
+    assert.equal(lost.cached, false)
+    const [resized] = await app.database.get('ncm_cache', { id: 'ncm:1003' })
+    assert.equal(resized.fileSize, 400)
+  })
+
+  it('applies effect presets and caches the processed audio', async () => {
+    const started = Date.now()
+    const client = app.mock.client('3001')
+    const replies = await client.receive('ncmget -e nightcore 七里香')
+    assert.ok(replies.some(reply => reply.includes('正在处理音效 nightcore')), replies.join(' | '))
+    assert.ok(replies.some(reply => reply.includes('title="周杰伦 - 七里香 [nightcore].mp3"')), replies.join(' | '))
+    assert.equal(ffmpeg.runs.length, 1)
+    assert.deepEqual(ffmpeg.runs[0].slice(-2), ['-af', BUILTIN_EFFECTS.nightcore])
+
+    const [processed] = await app.database.get('ncm_cache', { id: 'ncm:185811', quality: 'exhigh+nightcore' })
+    assert.ok(processed?.cachePath)
+    assert.equal(processed.cached, true)
+    await fs.access(processed.cachePath)
+
+    // 再次使用相同预设直接发送缓存的处理结果
+    const again = await client.receive('ncmget -e nightcore 七里香')
+    assert.ok(again.some(reply => reply.startsWith('<file')))
+    assert.ok(!again.some(reply => reply.includes('正在处理音效')))
+    assert.equal(ffmpeg.runs.length, 1)
+
+    // 发送处理结果同时计入源音频的访问记录
+    const [source] = await app.database.get('ncm_cache', { id: 'ncm:185811', quality: 'exhigh' })
+    assert.equal(source.hits, 2)
+    assert.ok(source.lastAccess! >= started)
+
+    assert.match((await client.receive('ncmget -e chipmunk 七里香'))[0], /未知的音效「chipmunk」/)
+    assert.match((await client.receive('ncmget -e constructor 七里香'))[0], /未知的音效「constructor」/)
+    assert.equal(ffmpeg.runs.length, 1)
+  })
+
+  it('sends clips and the chorus as voice without caching them', async () => {
+    const client = app.mock.client('3002')
+    const replies = await client.receive('ncmget --clip 0:10-0:20 七里香')
+    assert.ok(replies.some(reply => reply.includes('正在截取片段 0:10-0:20')), replies.join(' | '))
+    assert.ok(replies.some(reply => reply.startsWith('<audio')), replies.join(' | '))
+    assert.deepEqual(ffmpeg.inputs[0], ['-ss', '10.000', '-t', '10.000'])
+
+    // 副歌不足 30 秒时向后延长
+    const chorus = await client.receive('ncmget --chorus 七里香')
+    assert.ok(chorus.some(reply => reply.includes('正在截取片段 2:00-2:30')), chorus.join(' | '))
+    assert.deepEqual(ffmpeg.inputs[1], ['-ss', '120.000', '-t', '30.000'])
+
+    const files = await fs.readdir(cachePath)
+    assert.ok(!files.some(file => file.endsWith('.tmp.mp3')), files.join(', '))
+    const rows = await app.database.get('ncm_cache', { id: 'ncm:185811' })
+    assert.deepEqual(rows.map(row => row.quality), ['exhigh'])
+
+    assert.match((await client.receive('ncmget --clip 4:00-5:30 七里香'))[0], /超出歌曲时长（4:59）/)
+    assert.match((await client.receive('ncmget --clip 1:30-1:00 七里香'))[0], /无效的截取范围/)
+    assert.ok((await client.receive('ncmget --chorus 稻香')).some(reply => reply.includes('没有副歌信息')))
+    assert.equal(ffmpeg.runs.length, 2)
+  })
+})
+
+describe('voice encoding', () => {
+  const server = new FakeNcmServer([
+    { id: 186016, name: '晴天', artist: '周杰伦', album: '叶惠美', duration: 269000, size: 600 },
+    { id: 185809, name: '稻香', artist: '周杰伦', album: '魔杰座', duration: 223000, size: 300 },
+  ])
+  let app: App
+  let cachePath: string
+  let silk: FakeSilk
+
+  before(async () => {
+    await server.start()
+  })
+
+  after(async () => {
+    await server.close()
+  })
+
+  beforeEach(async () => {
+    silk = new FakeSilk()
+    ;({ app, cachePath } = await startApp({
+      baseUrl: server.url,
+      voiceCodecs: { mock: 'silk' },
+    }, { ffmpeg: new FakeFFmpeg(), silk }))
+  })
+
+  afterEach(async () => {
+    await app.stop()
+    await fs.rm(cachePath, { recursive: true, force: true })
+  })
+
+  it('encodes voice messages for the platform and caches the result', async () => {
+    const client = app.mock.client('4001')
+    const replies = await client.receive('ncmget -a 晴天')
+    assert.ok(replies.some(reply => reply.startsWith('<audio') && reply.includes('title="周杰伦 - 晴天.silk"')), replies.join(' | '))
+    assert.equal(silk.calls, 1)
+
+    const [voice] = await app.database.get('ncm_cache', { id: 'ncm:186016', quality: 'exhigh+silk' })
+    assert.ok(voice?.cachePath)
+    assert.equal(voice.cached, true)
+    assert.equal((await fs.readFile(voice.cachePath)).subarray(0, 9).toString(), '#!SILK_V3')
+
+    assert.ok((await client.receive('ncmget -a 晴天')).some(reply => reply.startsWith('<audio')))
+    assert.equal(silk.calls, 1)
+
+    // 文件格式发送不转码
+    assert.ok((await client.receive('ncmget 晴天')).some(reply => reply.includes('title="周杰伦 - 晴天.mp3"')))
+    assert.equal(silk.calls, 1)
+
+    // 语音发送同样计入源音频的访问记录
+    const [source] = await app.database.get('ncm_cache', { id: 'ncm:186016', quality: 'exhigh' })
+    assert.equal(source.hits, 3)
+    assert.equal((await app.database.get('ncm_cache', { id: 'ncm:186016', quality: 'exhigh+silk' }))[0].hits, 2)
+  })
+
+  it('falls back to the original audio when encoding fails', async () => {
+    silk.fail = true
+    const replies = await app.mock.client('4002').receive('ncmget -a 稻香')
+    assert.ok(replies.some(reply => reply.includes('语音转码失败')), replies.join(' | '))
+    assert.ok(replies.some(reply => reply.startsWith('<audio') && reply.includes('title="周杰伦 - 稻香.mp3"')), replies.join(' | '))
+    const caches = await app.database.get('ncm_cache', { id: 'ncm:185809', quality: 'exhigh+silk' })
+    assert.equal(caches.length, 0)
+  })
+})
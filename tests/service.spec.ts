@@ -0,0 +1,164 @@
+import { after, before, beforeEach, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { App, HTTP } from 'koishi'
+import memory from '@koishijs/plugin-database-memory'
+import * as plugin from '../src'
+import { NcmService, DEFAULT_REAL_IP, DEFAULT_USER_AGENT, detectTrialClip, randomChinaIp } from '../src/service'
+import { FAKE_SECRET_KEY, FakeNcmServer } from './fake-server'
+
+describe('NcmService', () => {
+  const server = new FakeNcmServer([
+    { id: 186016, name: '晴天', artist: '周杰伦', album: '叶惠美', duration: 269000, size: 1024, lyric: ['[00:01.00]故事的小黄花', '[00:01.00]The little yellow flower of the story'] },
+    { id: 185811, name: '七里香', artist: '周杰伦', album: '七里香', duration: 299000, size: 1024 },
+  ])
+  const app = new App()
+  let ncm: NcmService
+
+  before(async () => {
+    await server.start()
+    app.plugin(HTTP)
+    app.plugin(memory)
+    // 加载插件以注册数据表，被测实例单独创建
+    app.plugin(plugin, { baseUrl: server.url, accountCheckInterval: 0 })
+    await app.start()
+    // 缩短退避时间，保持测试快速
+    ncm = new NcmService(app, plugin.Config({ baseUrl: server.url }), { secretKey: FAKE_SECRET_KEY, retryBaseDelay: 20 })
+  })
+
+  after(async () => {
+    await app.stop()
+    await server.close()
+  })
+
+  beforeEach(() => {
+    server.requests.length = 0
+    server.failures.clear()
+  })
+
+  it('sends WEAPI-encrypted parameters', async () => {
+    const page = await ncm.searchMusic('晴天', 5, 0)
+    assert.deepEqual(page.items.map(song => song.name), ['晴天'])
+    const [request] = server.requestsTo('/weapi/cloudsearch/pc')
+    assert.equal(request.params.s, '晴天')
+    assert.equal(request.params.type, 1)
+    assert.equal(request.params.limit, 5)
+    assert.equal(request.params.csrf_token, '')
+  })
+
+  it('sends the configured User-Agent and spoofed IP', async () => {
+    await ncm.searchMusic('晴天')
+    const [request] = server.requestsTo('/weapi/cloudsearch/pc')
+    assert.equal(request.headers['user-agent'], DEFAULT_USER_AGENT)
+    assert.equal(request.headers['x-real-ip'], DEFAULT_REAL_IP)
+
+    const custom = new NcmService(app, plugin.Config({
+      baseUrl: server.url,
+      userAgent: 'ncm-test',
+      realIpMode: 'random',
+    }), { secretKey: FAKE_SECRET_KEY })
+    await custom.searchMusic('晴天')
+    await custom.searchMusic('晴天')
+    const [, first, second] = server.requestsTo('/weapi/cloudsearch/pc')
+    assert.equal(first.headers['user-agent'], 'ncm-test')
+    assert.match(String(first.headers['x-real-ip']), /^\d+\.\d+\.\d+\.\d+$/)
+    assert.notEqual(first.headers['x-real-ip'], second.headers['x-real-ip'])
+  })
+
+  it('requests song URLs by quality level through eapi', async () => {
+    const result = await ncm.getSongUrlByQuality('186016', 'lossless')
+    assert.equal(result?.quality, 'exhigh')
+    assert.equal(result?.urlInfo.size, 1024)
+    const requests = server.requestsTo('/eapi/song/enhance/player/url/v1')
+    assert.equal(requests.length, 1)
+    assert.equal(requests[0].params.level, 'lossless')
+    assert.equal(requests[0].params.header.os, 'pc')
+    assert.match(String(requests[0].headers.cookie), /os=pc/)
+  })
+
+  it('prefers saved cookies until the configured cookie changes', async () => {
+    const create = (cookie: string) => new NcmService(app, plugin.Config({ baseUrl: server.url, cookie }), { secretKey: FAKE_SECRET_KEY })
+    const sentCookie = async (service: NcmService) => {
+      // 服务创建后自动调用 start()
+      await app.lifecycle.flush()
+      await service.searchMusic('晴天')
+      return String(server.requestsTo('/weapi/cloudsearch/pc').pop()?.headers.cookie)
+    }
+
+    await app.database.remove('ncm_cookie', {})
+    assert.equal(await sentCookie(create('MUSIC_U=old')), 'MUSIC_U=old')
+    // 自动刷新后保存的 Cookie 在配置未变时优先
+    await app.database.upsert('ncm_cookie', [{ name: 'MUSIC_U', value: 'refreshed', updateTime: Date.now() }])
+    assert.equal(await sentCookie(create('MUSIC_U=old')), 'MUSIC_U=refreshed')
+
+    // 管理员更换配置中的 Cookie 后，之前保存的 Cookie 作废
+    assert.equal(await sentCookie(create('MUSIC_U=fresh')), 'MUSIC_U=fresh')
+    const rows = await app.database.get('ncm_cookie', {})
+    assert.deepEqual(rows.map(row => row.name), [':config-hash'])
+    assert.equal(await sentCookie(create('MUSIC_U=fresh')), 'MUSIC_U=fresh')
+  })
+
+  it('requests lyrics through linuxapi', async () => {
+    const lyric = await ncm.getLyric('186016')
+    assert.equal(lyric?.lrc, '[00:01.00]故事的小黄花')
+    assert.equal(lyric?.tlyric, '[00:01.00]The little yellow flower of the story')
+    const [request] = server.requestsTo('/api/song/lyric')
+    assert.equal(request.params.tv, -1)
+    assert.match(String(request.headers['user-agent']), /Linux/)
+    assert.equal(await ncm.getLyric('185811'), null)
+  })
+
+  it('falls back to legacy search when cloudsearch fails', async () => {
+    server.fail('/weapi/cloudsearch/pc', 1)
+    const page = await ncm.searchMusic('周杰伦')
+    assert.equal(page.total, 2)
+    assert.equal(page.items[0].artist, '周杰伦')
+    assert.equal(page.items[0].duration, 269000)
+    assert.equal(server.requestsTo('/weapi/search/get').length, 1)
+  })
+
+  it('retries with exponential backoff', async () => {
+    server.fail('/weapi/cloudsearch/pc', 2)
+    server.fail('/weapi/search/get', 2)
+    const page = await ncm.searchMusic('七里香')
+    assert.equal(page.items[0].id, '185811')
+
+    const times = server.requestsTo('/weapi/cloudsearch/pc').map(request => request.time)
+    assert.equal(times.length, 3)
+    const [first, second] = [times[1] - times[0], times[2] - times[1]]
+    assert.ok(first >= 20, `first delay ${first}ms`)
+    assert.ok(second >= 40, `second delay ${second}ms`)
+    assert.ok(second > first)
+  })
+
+  it('gives up after the retry limit', async () => {
+    server.fail('/weapi/cloudsearch/pc', 3)
+    server.fail('/weapi/search/get', 3)
+    await assert.rejects(ncm.searchMusic('晴天'), /模拟服务故障/)
+    assert.equal(server.requestsTo('/weapi/cloudsearch/pc').length, 3)
+  })
+})
+
+describe('randomChinaIp', () => {
+  it('generates valid IPv4 addresses', () => {
+    for (let i = 0; i < 100; i++) {
+      const parts = randomChinaIp().split('.').map(Number)
+      assert.equal(parts.length, 4)
+      assert.ok(parts.every(part => Number.isInteger(part) && part >= 0 && part <= 255))
+    }
+  })
+})
+
+describe('detectTrialClip', () => {
+  it('prefers freeTrialInfo', () => {
+    assert.equal(detectTrialClip({ freeTrialInfo: { start: 10, end: 40 } }), 30000)
+  })
+
+  it('compares the audio length with the song duration', () => {
+    assert.equal(detectTrialClip({ time: 30000 }, 240000), 30000)
+    assert.equal(detectTrialClip({ time: 239000 }, 240000), undefined)
+    // 320kbps 下 1.2MB 约 30 秒
+    assert.equal(detectTrialClip({ size: 1200000, br: 320000 }, 240000), 30000)
+    assert.equal(detectTrialClip({ size: 9600000, br: 320000 }, 240000), undefined)
+    assert.equal(detectTrialClip({ size: 1200000, br: 320000 }), undefined)
+  })
+})
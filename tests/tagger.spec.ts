@@ -0,0 +1,78 @@
+import { after, before, describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { writeTags } from '../src/tagger'
+
+/** FLAC 元数据块：1 字节类型（最高位标记最后一块）+ 3 字节长度 + 数据 */
+function flacBlock(type: number, data: Buffer, last = false): Buffer {
+  const header = Buffer.alloc(4)
+  header[0] = type | (last ? 0x80 : 0)
+  header.writeUIntBE(data.length, 1, 3)
+  return Buffer.concat([header, data])
+}
+
+describe('writeTags', () => {
+  const frames = Buffer.alloc(4096, 7)
+  frames.set([0xff, 0xfb, 0x90, 0x00])
+  let dir: string
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ncm-tagger-'))
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('replaces an existing ID3 tag and keeps the audio frames', async () => {
+    const filePath = path.join(dir, 'song.mp3')
+    await fs.writeFile(filePath, frames)
+    assert.equal(await writeTags(filePath, { title: '晴天', artist: '周杰伦' }), true)
+    assert.equal(await writeTags(filePath, { title: '稻香', artist: '周杰伦', album: '魔杰座' }), true)
+
+    const data = await fs.readFile(filePath)
+    assert.equal(data.subarray(0, 3).toString('latin1'), 'ID3')
+    const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9]
+    assert.ok(data.subarray(10 + size).equals(frames))
+    assert.ok(data.includes(Buffer.from('稻香', 'utf16le')))
+    assert.ok(!data.includes(Buffer.from('晴天', 'utf16le')))
+    assert.deepEqual((await fs.readdir(dir)).filter(file => file.endsWith('.tag')), [])
+  })
+
+  it('replaces FLAC comment and picture blocks', async () => {
+    const filePath = path.join(dir, 'song.flac')
+    const streamInfo = Buffer.alloc(34, 1)
+    const audio = Buffer.alloc(4096, 9)
+    await fs.writeFile(filePath, Buffer.concat([
+      Buffer.from('fLaC', 'latin1'),
+      flacBlock(0, streamInfo),
+      flacBlock(4, Buffer.from('old comment')),
+      flacBlock(1, Buffer.alloc(1024), true),
+      audio,
+    ]))
+    const cover = { data: Buffer.from('cover'), mime: 'image/jpeg' }
+    assert.equal(await writeTags(filePath, { title: '晴天', artist: '周杰伦', cover }), true)
+
+    const data = await fs.readFile(filePath)
+    const types: number[] = []
+    let offset = 4
+    for (let last = false; !last; offset += 4 + data.readUIntBE(offset + 1, 3)) {
+      last = (data[offset] & 0x80) !== 0
+      types.push(data[offset] & 0x7f)
+    }
+    assert.deepEqual(types, [0, 4, 6])
+    assert.ok(data.subarray(8, 42).equals(streamInfo))
+    assert.ok(data.subarray(offset).equals(audio))
+    assert.ok(data.includes(Buffer.from('TITLE=晴天')))
+    assert.ok(!data.includes(Buffer.from('old comment')))
+  })
+
+  it('leaves unsupported files untouched', async () => {
+    const filePath = path.join(dir, 'song.bin')
+    await fs.writeFile(filePath, Buffer.from('not audio'))
+    assert.equal(await writeTags(filePath, { title: '晴天', artist: '周杰伦' }), false)
+    assert.equal(await fs.readFile(filePath, 'utf8'), 'not audio')
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test'
+import * as assert from 'node:assert/strict'
+import { getVoiceArgs } from '../src/voice'
+
+describe('getVoiceArgs', () => {
+  const option = (args: string[], name: string) => args[args.indexOf(name) + 1]
+
+  it('truncates to the maximum duration', () => {
+    assert.deepEqual(getVoiceArgs('amr', { maxDuration: 60, maxSize: 0 }).slice(0, 2), ['-t', '60'])
+    assert.ok(!getVoiceArgs('amr', { maxDuration: 0, maxSize: 0 }).includes('-t'))
+  })
+
+  it('lowers the Opus bitrate to fit the size limit', () => {
+    assert.equal(option(getVoiceArgs('opus', { maxDuration: 0, maxSize: 0, duration: 240 }), '-b:a'), '64k')
+    // 1MB / 240 秒约 35kbps，预留封装开销后为 33kbps
+    assert.equal(option(getVoiceArgs('opus', { maxDuration: 0, maxSize: 1024 * 1024, duration: 240 }), '-b:a'), '33k')
+    // 截断后的时长参与计算
+    assert.equal(option(getVoiceArgs('opus', { maxDuration: 120, maxSize: 1024 * 1024, duration: 240 }), '-b:a'), '64k')
+    assert.equal(option(getVoiceArgs('opus', { maxDuration: 0, maxSize: 1024, duration: 240 }), '-b:a'), '16k')
+  })
+
+  it('decodes to mono PCM for SILK', () => {
+    const args = getVoiceArgs('silk', { maxDuration: 0, maxSize: 0 })
+    assert.equal(option(args, '-f'), 's16le')
+    assert.equal(option(args, '-ar'), '24000')
+    assert.equal(option(args, '-ac'), '1')
+  })
+})